@@ -336,7 +336,8 @@ class CartViewModel: ObservableObject {
             // 3️⃣ Purchase shipping label AFTER payment
             let label = try await purchaseLabel(
                 shipmentId: ratesResult.shipmentId,
-                rateId: cheapestRate.objectId
+                rateId: cheapestRate.objectId,
+                listingId: firstItem.listingId ?? ""
             )
 
             print("📦 Label purchased: \(label.trackingNumber)")
@@ -410,14 +411,16 @@ class CartViewModel: ObservableObject {
 
     private func purchaseLabel(
         shipmentId: String,
-        rateId: String
+        rateId: String,
+        listingId: String
     ) async throws -> ShippoLabel {
 
         let functions = Functions.functions(region: "us-central1")
 
         let payload: [String: Any] = [
             "shipmentId": shipmentId,
-            "rateId": rateId
+            "rateId": rateId,
+            "listingId": listingId
         ]
 
         let result = try await functions
@@ -16,6 +16,7 @@
 import SwiftUI
 import FirebaseAuth
 import FirebaseFirestore
+@preconcurrency import FirebaseFunctions
 import Network
 
 // MARK: - Models
@@ -72,57 +73,63 @@ final class ChatService {
         conversations.document(cid).collection("messages")
     }
 
-    // Create (or reuse) a 1:1 conversation by members (sorted)
-    func getOrCreateConversation(between uids: [String]) async throws -> String {
-        let sorted = uids.sorted()
-        // Try to find existing conversation with exact members
-        let q = conversations
-            .whereField("members", arrayContains: sorted.first!)
-            .order(by: "updatedAt", descending: true)
+    // Conversations are created server-side (one thread per pair, block checks, listing snapshot)
+    private lazy var functions = Functions.functions(region: "us-central1")
 
-        let snap = try await q.getDocuments()
-        if let doc = snap.documents.first(where: { (try? $0.data(as: Conversation.self))?.members.sorted() == sorted }) {
-            return doc.documentID
+    private func callGetOrCreateConversation(_ payload: [String: Any]) async throws -> String {
+        let result = try await functions.httpsCallable("getOrCreateConversation").call(payload)
+        guard
+            let dict = result.data as? [String: Any],
+            let cid = dict["conversationId"] as? String
+        else {
+            throw NSError(domain: "ChatService", code: -1, userInfo: [NSLocalizedDescriptionKey: "Invalid response from getOrCreateConversation"])
         }
+        return cid
+    }
 
-        // Create new
-        let ref = conversations.document()
-        try await ref.setData([
-            "members": sorted,
-            "updatedAt": FieldValue.serverTimestamp()
-        ])
-        return ref.documentID
+    // Create (or reuse) the 1:1 conversation between the current user and the other member
+    func getOrCreateConversation(between uids: [String]) async throws -> String {
+        let me = Auth.auth().currentUser?.uid
+        guard let target = uids.first(where: { $0 != me }) else {
+            throw NSError(domain: "ChatService", code: -2, userInfo: [NSLocalizedDescriptionKey: "Conversation needs another member"])
+        }
+        return try await callGetOrCreateConversation(["targetUid": target])
+    }
+
+    // Message a listing's seller; attaches the listing to the thread
+    func getOrCreateConversation(listingId: String) async throws -> String {
+        try await callGetOrCreateConversation(["listingId": listingId])
     }
 
-    // Simple creation if you already decided to always make new threads
+    // Kept for existing call sites; threads are always reused per pair now
     func createConversation(members: [String]) async throws -> String {
-        let ref = conversations.document()
-        try await ref.setData([
-            "members": members.sorted(),
-            "updatedAt": FieldValue.serverTimestamp()
-        ])
-        return ref.documentID
+        try await getOrCreateConversation(between: members)
     }
 
+    // Posted server-side: contact details are masked before the message is stored,
+    // lastMessage / unread counts are maintained there too. `uid` is the signed-in sender.
     func sendMessage(cid: String, text: String, from uid: String) async throws {
-        let convRef = conversations.document(cid)
-        let msgRef  = convRef.collection("messages").document()
-        let now = FieldValue.serverTimestamp()
-
-        let batch = db.batch()
-        batch.setData([
-            "text": text,
-            "senderId": uid,
-            "createdAt": now
-        ], forDocument: msgRef)
-
-        batch.updateData([
-            "lastMessage": text,
-            "lastSenderId": uid,
-            "updatedAt": now
-        ], forDocument: convRef)
-
-        try await batch.commit()
+        _ = try await functions.httpsCallable("sendConversationMessage").call([
+            "conversationId": cid,
+            "text": text
+        ])
+    }
+
+    // Chat screen heartbeat: a fresh viewingAt (< 60s old) suppresses message pushes to this member
+    func updatePresence(cid: String, uid: String) async {
+        do {
+            try await conversations.document(cid).collection("presence").document(uid).setData([
+                "viewingAt": FieldValue.serverTimestamp()
+            ])
+        } catch {
+            #if DEBUG
+            print("[Presence] heartbeat failed:", error.localizedDescription)
+            #endif
+        }
+    }
+
+    func clearPresence(cid: String, uid: String) async {
+        try? await conversations.document(cid).collection("presence").document(uid).delete()
     }
 
     // Inbox for current user
@@ -216,6 +223,9 @@ final class ChatVM: ObservableObject {
 
     let cid: String
     private var listener: ListenerRegistration?
+    private var presenceTask: Task<Void, Never>?
+    // Well under the server's 60s presence TTL
+    private static let presenceIntervalSeconds: UInt64 = 30
 
     init(cid: String) { self.cid = cid }
 
@@ -224,11 +234,35 @@ final class ChatVM: ObservableObject {
         listener = ChatService.shared.listenMessages(cid: cid) { [weak self] msgs in
             DispatchQueue.main.async { self?.messages = msgs }
         }
+        startPresence()
     }
 
     func stop() {
         listener?.remove()
         listener = nil
+        stopPresence()
+    }
+
+    // Heartbeat while the thread is on screen so the other member's messages don't push
+    func startPresence() {
+        presenceTask?.cancel()
+        guard let uid = Auth.auth().currentUser?.uid else { return }
+        let cid = self.cid
+        presenceTask = Task {
+            while !Task.isCancelled {
+                await ChatService.shared.updatePresence(cid: cid, uid: uid)
+                try? await Task.sleep(nanoseconds: Self.presenceIntervalSeconds * 1_000_000_000)
+            }
+        }
+    }
+
+    func stopPresence() {
+        guard let task = presenceTask else { return }
+        task.cancel()
+        presenceTask = nil
+        guard let uid = Auth.auth().currentUser?.uid else { return }
+        let cid = self.cid
+        Task { await ChatService.shared.clearPresence(cid: cid, uid: uid) }
     }
 
     func send() async {
@@ -269,6 +303,7 @@ struct ChatBubble: View {
 struct ChatView: View {
     @StateObject var vm: ChatVM
     @StateObject private var net = NetMon.shared
+    @Environment(\.scenePhase) private var scenePhase
 
     var body: some View {
         VStack(spacing: 0) {
@@ -322,6 +357,14 @@ struct ChatView: View {
                 vm.stop()
             }
         }
+        // Backgrounded: the thread isn't being viewed, so pushes should arrive
+        .onChange(of: scenePhase) { _, phase in
+            if phase == .active {
+                if net.isReachable { vm.startPresence() }
+            } else {
+                vm.stopPresence()
+            }
+        }
         .onDisappear { vm.stop() }
     }
 }
@@ -3,6 +3,7 @@ module.exports = {
   env: {
     es6: true,
     node: true,
+    jest: true,
   },
   extends: [
     "eslint:recommended",
@@ -14,7 +15,12 @@ module.exports = {
   ],
   parser: "@typescript-eslint/parser",
   parserOptions: {
-    project: ["tsconfig.json", "tsconfig.dev.json"],
+    project: [
+      "tsconfig.json",
+      "tsconfig.dev.json",
+      "scripts/tsconfig.json",
+      "test/tsconfig.json",
+    ],
     sourceType: "module",
   },
   ignorePatterns: [
@@ -0,0 +1,510 @@
+// scripts/matchEval.ts - Offline matching-quality evaluation over labelled
+// image pairs
+//
+// Usage (from functions/):
+//   npm run eval:matching -- <dataDir> [--out <outDir>] [--hashers
+//   phash,phash-set,dhash,ensemble]
+//
+// <dataDir>/pairs.csv lists one pair per line (header required):
+//   brand,imageA,imageB,label
+//   janie and jack,a/001.jpg,b/001.jpg,same
+//   janie and jack,a/001.jpg,b/007.jpg,different
+// Image paths are relative to <dataDir>. label: same | different (also 1/0,
+// true/false).
+// Fields containing a comma are double-quoted ("oshkosh, b'gosh"); "" is a
+// literal quote.
+//
+// Writes <outDir>/match-eval.json and <outDir>/match-eval.csv with one row per
+// hasher × brand × threshold (TP/FP/TN/FN, precision, recall, FPR, F1), plus a
+// per-hasher/brand summary (ROC AUC and best-F1 threshold). Brand "*" is all
+// pairs.
+import {promises as fs} from "fs";
+import * as path from "path";
+import {
+  PatternHashSet,
+  computeHashSetFromBuffer,
+  computeHexPHashFromBuffer,
+  hammingHex,
+  minHammingOverSets,
+} from "../src/hashing";
+import {
+  SimilarityFeatures,
+  computeSimilarityFeatures,
+  scoreMatch,
+} from "../src/similarity";
+
+interface LabelledPair {
+  brand: string;
+  imageA: string;
+  imageB: string;
+  same: boolean;
+}
+
+/**
+ * A hasher turns an image into a feature and two features into a distance on
+ * the 0–64 scale used by PHASH_MATCH_THRESHOLD (lower = more similar).
+ */
+interface EvalHasher<T> {
+  name: string;
+  prepare(buf: Buffer): Promise<T | null>;
+  distance(a: T, b: T): number;
+}
+
+const HASH_BITS = 64;
+
+type Prepared = {
+  phash: string;
+  hashes: PatternHashSet;
+  features: SimilarityFeatures | null;
+};
+
+const HASHERS: EvalHasher<Prepared>[] = [
+  {
+    name: "phash",
+    prepare: async (buf) => ({
+      phash: await computeHexPHashFromBuffer(buf),
+      hashes: {},
+      features: null,
+    }),
+    distance: (a, b) => hammingHex(a.phash, b.phash),
+  },
+  {
+    name: "phash-set",
+    prepare: async (buf) => {
+      const hashes = await computeHashSetFromBuffer(buf);
+      return {phash: hashes.identity ?? "", hashes, features: null};
+    },
+    distance: (a, b) => minHammingOverSets(a.hashes, b.hashes).distance,
+  },
+  {
+    name: "dhash",
+    prepare: async (buf) => {
+      const features = await computeSimilarityFeatures(buf);
+      return features ? {phash: "", hashes: {}, features} : null;
+    },
+    // prepare() drops images without features; a missing side counts as
+    // maximally distant
+    distance: (a, b) =>
+      a.features && b.features ?
+        hammingHex(a.features.dhash, b.features.dhash) :
+        HASH_BITS,
+  },
+  {
+    name: "ensemble",
+    prepare: async (buf) => {
+      const hashes = await computeHashSetFromBuffer(buf);
+      return {
+        phash: hashes.identity ?? "",
+        hashes,
+        features: await computeSimilarityFeatures(buf),
+      };
+    },
+    // Ensemble score mapped onto the 0–64 distance scale so thresholds line up
+    distance: (a, b) => {
+      const {distance} = minHammingOverSets(a.hashes, b.hashes);
+      return (
+        (1 - scoreMatch(distance, a.features, b.features).score) * HASH_BITS
+      );
+    },
+  },
+];
+
+export interface ThresholdRow {
+  hasher: string;
+  brand: string;
+  threshold: number;
+  tp: number;
+  fp: number;
+  tn: number;
+  fn: number;
+  precision: number | null;
+  recall: number | null;
+  fpr: number | null;
+  f1: number | null;
+}
+
+export interface EvalSummary {
+  hasher: string;
+  brand: string;
+  pairs: number;
+  positives: number;
+  negatives: number;
+  skipped: number;
+  auc: number | null;
+  bestF1: {
+    threshold: number;
+    f1: number;
+    precision: number | null;
+    recall: number | null;
+  } | null;
+}
+
+const round3 = (x: number) => Math.round(x * 1000) / 1000;
+const ratio = (n: number, d: number) => (d > 0 ? round3(n / d) : null);
+
+/**
+ * Parse a pairs.csv label; null when unrecognised.
+ * @param {string} raw
+ * @return {boolean|null}
+ */
+function parseLabel(raw: string): boolean | null {
+  const v = raw.trim().toLowerCase();
+  if (["same", "1", "true", "yes", "match"].includes(v)) return true;
+  if (["different", "0", "false", "no", "nomatch"].includes(v)) return false;
+  return null;
+}
+
+/**
+ * Split one CSV line into fields, honouring double-quoted fields.
+ * @param {string} line
+ * @return {Array<string>}
+ */
+export function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === "\"" && line[i + 1] === "\"") {
+        field += "\"";
+        i++;
+      } else if (ch === "\"") {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === "\"") {
+      quoted = true;
+    } else if (ch === ",") {
+      fields.push(field.trim());
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+}
+
+/**
+ * Read the labelled pairs from <dataDir>/pairs.csv.
+ * @param {string} dataDir
+ * @return {Promise<Array<LabelledPair>>}
+ */
+export async function readPairs(dataDir: string): Promise<LabelledPair[]> {
+  const text = await fs.readFile(path.join(dataDir, "pairs.csv"), "utf8");
+  const lines = text
+    .split(/\r?\n/)
+    .filter((l) => l.trim() && !l.trim().startsWith("#"));
+  const pairs: LabelledPair[] = [];
+  lines.slice(1).forEach((line, i) => {
+    const [brand = "", imageA = "", imageB = "", label = ""] =
+      parseCsvLine(line);
+    const same = parseLabel(label);
+    if (!imageA || !imageB || same === null) {
+      console.warn("[MATCH_EVAL] pairs:skip", {
+        line: i + 2,
+        reason: "missing image or label",
+      });
+      return;
+    }
+    pairs.push({brand: brand.toLowerCase() || "unknown", imageA, imageB, same});
+  });
+  return pairs;
+}
+
+/**
+ * Confusion counts for every integer threshold 0–64 (predict match when
+ * distance ≤ threshold).
+ * @param {string} hasher
+ * @param {string} brand
+ * @param {Object} scored
+ * @return {Array<ThresholdRow>}
+ */
+export function thresholdTable(
+  hasher: string,
+  brand: string,
+  scored: {distance: number; same: boolean}[]
+): ThresholdRow[] {
+  const rows: ThresholdRow[] = [];
+  for (let t = 0; t <= HASH_BITS; t++) {
+    let tp = 0;
+    let fp = 0;
+    let tn = 0;
+    let fn = 0;
+    for (const s of scored) {
+      const predicted = s.distance <= t;
+      if (predicted && s.same) tp++;
+      else if (predicted) fp++;
+      else if (s.same) fn++;
+      else tn++;
+    }
+    const precision = ratio(tp, tp + fp);
+    const recall = ratio(tp, tp + fn);
+    const f1 =
+      precision !== null && recall !== null && precision + recall > 0 ?
+        round3((2 * precision * recall) / (precision + recall)) :
+        null;
+    rows.push({
+      hasher,
+      brand,
+      threshold: t,
+      tp,
+      fp,
+      tn,
+      fn,
+      precision,
+      recall,
+      fpr: ratio(fp, fp + tn),
+      f1,
+    });
+  }
+  return rows;
+}
+
+/**
+ * Trapezoidal ROC AUC over the threshold sweep, anchored at (0,0) and (1,1).
+ * @param {Array<ThresholdRow>} rows
+ * @return {number|null}
+ */
+export function rocAuc(rows: ThresholdRow[]): number | null {
+  const points = rows
+    .filter((r) => r.fpr !== null && r.recall !== null)
+    .map((r) => ({x: r.fpr as number, y: r.recall as number}));
+  if (!points.length) return null;
+  points.unshift({x: 0, y: 0});
+  points.push({x: 1, y: 1});
+  points.sort((a, b) => a.x - b.x || a.y - b.y);
+  let auc = 0;
+  for (let i = 1; i < points.length; i++) {
+    const p = points[i - 1];
+    const q = points[i];
+    if (!p || !q) continue;
+    auc += ((q.x - p.x) * (p.y + q.y)) / 2;
+  }
+  return round3(auc);
+}
+
+/**
+ * Score every hasher on every pair and sweep the thresholds.
+ * @param {string} dataDir
+ * @param {Array<LabelledPair>} pairs
+ * @param {Array<EvalHasher>} hashers
+ * @return {Promise<Object>}
+ */
+async function evaluate(
+  dataDir: string,
+  pairs: LabelledPair[],
+  hashers: EvalHasher<Prepared>[]
+) {
+  const rows: ThresholdRow[] = [];
+  const summaries: EvalSummary[] = [];
+  const brands = [
+    "*",
+    ...Array.from(new Set(pairs.map((p) => p.brand))).sort(),
+  ];
+
+  for (const hasher of hashers) {
+    const t0 = Date.now();
+    const cache = new Map<string, Prepared | null>();
+    const prepare = async (rel: string) => {
+      if (!cache.has(rel)) {
+        try {
+          cache.set(
+            rel,
+            await hasher.prepare(await fs.readFile(path.join(dataDir, rel)))
+          );
+        } catch (e) {
+          console.warn("[MATCH_EVAL] image:fail", {
+            hasher: hasher.name,
+            image: rel,
+            err: String(e),
+          });
+          cache.set(rel, null);
+        }
+      }
+      return cache.get(rel) ?? null;
+    };
+
+    const scored: {brand: string; distance: number; same: boolean}[] = [];
+    let skipped = 0;
+    for (const pair of pairs) {
+      const a = await prepare(pair.imageA);
+      const b = await prepare(pair.imageB);
+      if (!a || !b) {
+        skipped++;
+        continue;
+      }
+      scored.push({
+        brand: pair.brand,
+        distance: hasher.distance(a, b),
+        same: pair.same,
+      });
+    }
+
+    for (const brand of brands) {
+      const subset =
+        brand === "*" ? scored : scored.filter((s) => s.brand === brand);
+      const table = thresholdTable(hasher.name, brand, subset);
+      rows.push(...table);
+
+      const best = table
+        .filter((r) => r.f1 !== null)
+        .sort(
+          (a, b) =>
+            (b.f1 as number) - (a.f1 as number) || a.threshold - b.threshold
+        )[0];
+      const positives = subset.filter((s) => s.same).length;
+      summaries.push({
+        hasher: hasher.name,
+        brand,
+        pairs: subset.length,
+        positives,
+        negatives: subset.length - positives,
+        skipped:
+          brand === "*" ?
+            skipped :
+            pairs.filter((p) => p.brand === brand).length - subset.length,
+        auc: positives && subset.length - positives ? rocAuc(table) : null,
+        bestF1: best ?
+          {
+            threshold: best.threshold,
+            f1: best.f1 as number,
+            precision: best.precision,
+            recall: best.recall,
+          } :
+          null,
+      });
+    }
+    console.log("[MATCH_EVAL] hasher:done", {
+      hasher: hasher.name,
+      images: cache.size,
+      pairs: scored.length,
+      skipped,
+      ms: Date.now() - t0,
+    });
+  }
+
+  return {rows, summaries};
+}
+
+/**
+ * Threshold rows as CSV with a header line.
+ * @param {Array<ThresholdRow>} rows
+ * @return {string}
+ */
+function toCsv(rows: ThresholdRow[]): string {
+  const cols: (keyof ThresholdRow)[] = [
+    "hasher",
+    "brand",
+    "threshold",
+    "tp",
+    "fp",
+    "tn",
+    "fn",
+    "precision",
+    "recall",
+    "fpr",
+    "f1",
+  ];
+  const esc = (v: unknown) => {
+    const s = v === null || v === undefined ? "" : String(v);
+    return /[",\n]/.test(s) ? `"${s.replace(/"/g, "\"\"")}"` : s;
+  };
+  return (
+    [
+      cols.join(","),
+      ...rows.map((r) => cols.map((c) => esc(r[c])).join(",")),
+    ].join("\n") + "\n"
+  );
+}
+
+/**
+ * Parse `<dataDir> [--out <outDir>] [--hashers a,b]`.
+ * @param {Array<string>} argv
+ * @return {Object}
+ */
+function parseArgs(argv: string[]) {
+  const args: {
+    dataDir: string | null;
+    outDir: string | null;
+    hashers: string[] | null;
+  } = {dataDir: null, outDir: null, hashers: null};
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i];
+    if (a === "--out") args.outDir = argv[++i] ?? null;
+    else if (a === "--hashers") {
+      args.hashers = (argv[++i] ?? "")
+        .split(",")
+        .map((h) => h.trim())
+        .filter(Boolean);
+    } else if (a && !args.dataDir) args.dataDir = a;
+  }
+  return args;
+}
+
+/**
+ * Run the evaluation and write the reports.
+ */
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  if (!args.dataDir) {
+    console.error(
+      "Usage: npm run eval:matching -- <dataDir> [--out <outDir>] [--hashers " +
+        HASHERS.map((h) => h.name).join(",") +
+        "]"
+    );
+    process.exitCode = 1;
+    return;
+  }
+  const selected = args.hashers;
+  const hashers = selected ?
+    HASHERS.filter((h) => selected.includes(h.name)) :
+    HASHERS;
+  if (!hashers.length) {
+    console.error(
+      "No known hashers selected. Available: " +
+        HASHERS.map((h) => h.name).join(", ")
+    );
+    process.exitCode = 1;
+    return;
+  }
+
+  const dataDir = path.resolve(args.dataDir);
+  const outDir = path.resolve(args.outDir ?? path.join(dataDir, "eval-out"));
+  const pairs = await readPairs(dataDir);
+  console.log("[MATCH_EVAL] start", {
+    dataDir,
+    pairs: pairs.length,
+    hashers: hashers.map((h) => h.name),
+  });
+
+  const {rows, summaries} = await evaluate(dataDir, pairs, hashers);
+
+  await fs.mkdir(outDir, {recursive: true});
+  const report = {
+    generatedAt: new Date().toISOString(),
+    dataDir,
+    pairs: pairs.length,
+    summaries,
+    rows,
+  };
+  await fs.writeFile(
+    path.join(outDir, "match-eval.json"),
+    JSON.stringify(report, null, 2)
+  );
+  await fs.writeFile(path.join(outDir, "match-eval.csv"), toCsv(rows));
+
+  for (const s of summaries.filter((x) => x.brand === "*")) {
+    console.log("[MATCH_EVAL] summary", s);
+  }
+  console.log("[MATCH_EVAL] done", {outDir});
+}
+
+if (require.main === module) {
+  main().catch((err) => {
+    console.error("[MATCH_EVAL]", err);
+    process.exitCode = 1;
+  });
+}
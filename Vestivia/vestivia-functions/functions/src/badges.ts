@@ -0,0 +1,145 @@
+// functions/src/badges.ts
+import {onCall, HttpsError} from "firebase-functions/v2/https";
+import {onDocumentWritten} from "firebase-functions/v2/firestore";
+import * as admin from "firebase-admin";
+
+// Ensure Admin SDK is initialized even when this module is imported directly
+if (admin.apps.length === 0) {
+  admin.initializeApp();
+}
+
+const db = admin.firestore();
+
+/**
+ * App icon badge, kept at users/{uid}/counters/badge:
+ *   matches        – unseen users/{uid}/matchInbox entries
+ *   conversations  – conversations with unreadCount[uid] > 0
+ *   orders         – users/{uid}/sales still "paid" with no shipping label
+ *                    purchased yet (labelPurchased is set by buyShippoLabel)
+ *   total          – sum; sent as the APNs badge by sendUserPush
+ * Recomputed from count() queries, so every refresh is self-correcting.
+ */
+export interface BadgeCounts {
+  matches: number;
+  conversations: number;
+  orders: number;
+  total: number;
+}
+
+/**
+ * users/{uid}/counters/badge
+ * @param {string} uid
+ * @return {DocumentReference}
+ */
+export function badgeRef(uid: string) {
+  return db.collection("users").doc(uid).collection("counters").doc("badge");
+}
+
+/**
+ * Recount the user's badge, store it and return it.
+ * @param {string} uid
+ */
+export async function refreshBadge(uid: string): Promise<BadgeCounts> {
+  const userRef = db.collection("users").doc(uid);
+  const [matches, conversations, orders] = await Promise.all([
+    userRef.collection("matchInbox").where("seen", "==", false).count().get(),
+    db
+      .collection("conversations")
+      .where(`unreadCount.${uid}`, ">", 0)
+      .count()
+      .get(),
+    userRef
+      .collection("sales")
+      .where("status", "==", "paid")
+      .where("labelPurchased", "==", false)
+      .count()
+      .get(),
+  ]);
+
+  const counts: BadgeCounts = {
+    matches: matches.data().count,
+    conversations: conversations.data().count,
+    orders: orders.data().count,
+    total: 0,
+  };
+  counts.total = counts.matches + counts.conversations + counts.orders;
+
+  await badgeRef(uid).set({
+    ...counts,
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+  return counts;
+}
+
+/**
+ * Refresh the badge from a trigger, logging instead of throwing.
+ * @param {string} uid
+ * @param {string} reason
+ */
+async function refreshQuietly(uid: string, reason: string) {
+  try {
+    const counts = await refreshBadge(uid);
+    console.log("[BADGE] refreshed", {uid, reason, ...counts});
+  } catch (err) {
+    console.error("[BADGE] refresh:fail", {
+      uid,
+      reason,
+      error: String(err),
+    });
+  }
+}
+
+/** Match inbox entry created, deleted or seen-toggled. */
+export const onBadgeMatchInboxWrite = onDocumentWritten(
+  {region: "us-central1", document: "users/{uid}/matchInbox/{listingId}"},
+  async (event) => {
+    const before = event.data?.before.data();
+    const after = event.data?.after.data();
+    if (before && after && before["seen"] === after["seen"]) return;
+    await refreshQuietly(event.params.uid as string, "matchInbox");
+  }
+);
+
+/** Conversation unread counters changed for one or more members. */
+export const onBadgeConversationWrite = onDocumentWritten(
+  {region: "us-central1", document: "conversations/{cid}"},
+  async (event) => {
+    const before: Record<string, unknown> =
+      event.data?.before.get("unreadCount") ?? {};
+    const after: Record<string, unknown> =
+      event.data?.after.get("unreadCount") ?? {};
+    const uids = Array.from(
+      new Set([...Object.keys(before), ...Object.keys(after)])
+    ).filter(
+      (uid) => (Number(before[uid]) > 0) !== (Number(after[uid]) > 0)
+    );
+    await Promise.all(uids.map((uid) => refreshQuietly(uid, "conversation")));
+  }
+);
+
+/** Seller sale created, labelled or moved past "paid". */
+export const onBadgeSaleWrite = onDocumentWritten(
+  {region: "us-central1", document: "users/{uid}/sales/{saleId}"},
+  async (event) => {
+    const before = event.data?.before;
+    const after = event.data?.after;
+    if (
+      before?.get("status") === after?.get("status") &&
+      before?.get("labelPurchased") === after?.get("labelPurchased")
+    ) {
+      return;
+    }
+    await refreshQuietly(event.params.uid as string, "sale");
+  }
+);
+
+/**
+ * getBadgeCounts
+ * App launch: fresh badge breakdown for the caller.
+ */
+export const getBadgeCounts = onCall({region: "us-central1"}, async (req) => {
+  if (!req.auth?.uid) {
+    throw new HttpsError("unauthenticated", "Auth required.");
+  }
+  return {ok: true, badge: await refreshBadge(req.auth.uid)};
+});
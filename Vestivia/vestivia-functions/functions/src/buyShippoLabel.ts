@@ -27,8 +27,52 @@ type ShippoTransaction = {
 type BuyLabelInput = {
   shipmentId: string;
   rateId: string;
+  listingId?: string;
 };
 
+/**
+ * Mark the sale of `listingId` as labelled so it leaves the seller's pending
+ * orders. The listing is stamped first: a sale the webhook hasn't written yet
+ * reads the stamp, one it already wrote is found by the queries below.
+ * @param {string} listingId
+ * @param {string} shipmentId
+ */
+async function recordLabelForSale(listingId: string, shipmentId: string) {
+  const db = admin.firestore();
+  const mirror = await db.collection("all_listings").doc(listingId).get();
+  const sellerId = mirror.get("userId");
+  if (typeof sellerId !== "string" || !sellerId) {
+    console.warn("[Shippo] label: listing has no seller", {
+      listingId,
+      shipmentId,
+    });
+    return;
+  }
+
+  const sellerRef = db.collection("users").doc(sellerId);
+  await sellerRef.collection("listings").doc(listingId).set(
+    {
+      shipmentId,
+      labelPurchasedAt: admin.firestore.FieldValue.serverTimestamp(),
+    },
+    {merge: true}
+  );
+
+  const sales = sellerRef.collection("sales");
+  const [single, grouped] = await Promise.all([
+    sales.where("listingId", "==", listingId).get(),
+    sales.where("listingIds", "array-contains", listingId).get(),
+  ]);
+  const refs = new Map(
+    [...single.docs, ...grouped.docs].map((d) => [d.id, d.ref])
+  );
+  await Promise.all(
+    Array.from(refs.values()).map((ref) =>
+      ref.update({labelPurchased: true, shipmentId})
+    )
+  );
+}
+
 // ---- Callable: buyShippoLabel ----
 export const buyShippoLabel = onCall(
   { region: "us-central1", secrets: [SHIPPO_TEST_KEY] },
@@ -38,7 +82,7 @@ export const buyShippoLabel = onCall(
       throw new HttpsError("unauthenticated", "Sign in required");
     }
 
-    const { shipmentId, rateId } = (req.data || {}) as BuyLabelInput;
+    const {shipmentId, rateId, listingId} = (req.data || {}) as BuyLabelInput;
     if (!shipmentId || !rateId) {
       throw new HttpsError("invalid-argument", "shipmentId and rateId are required");
     }
@@ -89,10 +133,15 @@ export const buyShippoLabel = onCall(
           amount: tx.amount,
           currency: tx.currency,
           purchasedAt: admin.firestore.FieldValue.serverTimestamp(),
+          ...(listingId ? {listingId} : {}),
         },
         { merge: true }
       );
 
+    if (listingId) {
+      await recordLabelForSale(listingId, shipmentId);
+    }
+
     return {
       labelUrl: tx.label_url,
       trackingNumber: tx.tracking_number,
@@ -14,12 +14,154 @@ export const AppConstants = {
    * - 16-20: Somewhat similar
    * - 21+: Different images
    *
-   * Confidence formula: 1 - (distance / 64)
-   * At threshold 14: confidence >= 0.78 (78%)
+   * The threshold gates candidates; the stored score is the weighted
+   * ensemble from similarity.ts (see SIMILARITY_WEIGHTS).
+   * Measure changes with `npm run eval:matching` (scripts/matchEval.ts).
    */
   PHASH_MATCH_THRESHOLD: 14,
   PHASH_CONFIDENCE_DENOMINATOR: 64, // 64-bit hash
 
+  /**
+   * Version stamped on every pattern_hash_index entry.
+   * Bump when the hashing algorithm or the band-key layout changes so stale
+   * entries are ignored and re-indexed by the re-match backfill.
+   * 2: transform band keys on listing entries only
+   * 3: five 12–13-bit bands instead of eight 8-bit bands
+   */
+  HASH_ALGORITHM_VERSION: 3,
+
+  /**
+   * Multi-index hashing: the 64-bit hash is split into this many bands
+   * (13/13/13/13/12 bits). By pigeonhole, any hash within distance D shares a
+   * band within floor(D / bands) bits, so candidates are fetched by band-key
+   * lookups (see bandRadii in matching/hashIndex.ts). Every lookup probes with
+   * the identity hash only: 447 keys / 15 queries at D = 14, 15 keys / 1 query
+   * at D ≤ 4. For uniformly distributed hashes that fetches about 6% of the
+   * buyer / query entries at D = 14, about 2% at D = 10 and under 1% at D ≤ 9.
+   * Listing entries carry band keys for all 11 transform variants, so a
+   * lookup against listings fetches far more (about half of a partition at
+   * D = 14, a fifth at D = 10) – keep listing lookups at the brand threshold
+   * and below. Wider bands cut the fetch further but the neighbour
+   * keys per band explode (4 × 16 bits: 2,788 keys at D = 14).
+   */
+  HASH_INDEX_BANDS: 5,
+
+  // Band-key queries findHashesWithin keeps in flight at once
+  HASH_INDEX_QUERY_CONCURRENCY: 5,
+
+  /**
+   * Ensemble similarity weights (renormalized over the components available).
+   * - PHASH: 1 - (pHash distance / 64), structure in grayscale
+   * - DHASH: 1 - (dHash distance / 64), gradient structure
+   * - COLOR: 1 - hue/saturation histogram distance, separates colourways
+   */
+  SIMILARITY_WEIGHTS: {
+    PHASH: 0.5,
+    DHASH: 0.2,
+    COLOR: 0.3,
+  },
+  COLOR_HIST_HUE_BINS: 12,
+  COLOR_HIST_SAT_BINS: 3,
+
+  /**
+   * Buyer match feedback → per-brand threshold tuning (see matchFeedback.ts).
+   * The recommended threshold is the largest distance in [MIN, MAX] whose
+   * pattern precision (correct vs wrong_pattern) stays at or above
+   * TARGET_PRECISION, and is only computed once a brand has MIN_SAMPLES
+   * labelled pairs.
+   */
+  MATCH_FEEDBACK: {
+    TARGET_PRECISION: 0.8,
+    MIN_SAMPLES: 20,
+    MIN_THRESHOLD: 8,
+    MAX_THRESHOLD: 20,
+    // Labelled pairs needed at or below a candidate threshold before it can
+    // be recommended
+    MIN_SAMPLES_AT_THRESHOLD: 10,
+    // Recommendations go at most this far past the largest labelled distance
+    RAISE_STEP: 1,
+    LOOKBACK_DAYS: 180,
+  },
+
+  /**
+   * Cross-brand matching. Buyers who don't know the brand upload under the
+   * ANY_BRAND path segment (e.g.
+   * users_active_patterns/{uid}/_any/{searchId}.jpg) and are matched against
+   * every brand. Listings are also matched against searches filed under other
+   * brands (mislabelled brands) with the stricter CROSS_BRAND_PHASH_THRESHOLD.
+   */
+  ANY_BRAND: "_any",
+  CROSS_BRAND_PHASH_THRESHOLD: 10,
+
+  /**
+   * Upload quality gate for pattern images (quality.ts). Images are scored on a
+   * 128×128 grayscale/colour copy – the size of the app's users_active_patterns
+   * thumbnail – so buyer thumbnails and 512px listing images are comparable.
+   * - MIN_SIDE_PX: shortest side of the original upload
+   * - MIN_SHARPNESS: variance of the Laplacian; lower is blurrier
+   * - MAX_FLAT_COLOR_RATIO: share of pixels in the most common colour bucket
+   */
+  PATTERN_QUALITY: {
+    MIN_SIDE_PX: 128,
+    MIN_SHARPNESS: 60,
+    MAX_FLAT_COLOR_RATIO: 0.8,
+  },
+
+  /**
+   * Named pattern catalog (matching/patternCatalog.ts). A listing joins the
+   * nearest pattern of its brand within CLUSTER_THRESHOLD, otherwise it seeds a
+   * new (unnamed) one. Patterns keep a capped set of member hashes / images.
+   */
+  PATTERN_CATALOG: {
+    CLUSTER_THRESHOLD: 10,
+    MAX_REFERENCE_HASHES: 12,
+    MAX_SAMPLE_IMAGES: 6,
+  },
+
+  // Identity-pHash distance at or below which two sellers' pattern photos are
+  // treated as the same photo (matching/duplicates.ts). 0–2 survives
+  // re-encoding.
+  DUPLICATE_PHASH_THRESHOLD: 2,
+
+  /**
+   * Match digests (notifications.ts sendMatchDigests). Users on "hourly" /
+   * "daily" match delivery get one push grouping unseen matches by brand;
+   * daily digests go out at DAILY_LOCAL_HOUR in the user's time zone
+   * (quietHours.timeZone), at most once per MIN_DAILY_GAP_HOURS (DST shifts).
+   */
+  MATCH_DIGEST: {
+    DAILY_LOCAL_HOUR: 10,
+    MIN_DAILY_GAP_HOURS: 20,
+    MAX_BRANDS_IN_BODY: 3,
+    MAX_ITEMS: 200,
+  },
+
+  /**
+   * Conversations (messages.ts). The chat screen heartbeats
+   * conversations/{cid}/presence/{uid}.viewingAt while open; a heartbeat newer
+   * than PRESENCE_TTL_SEC suppresses message pushes to that member.
+   * CONTACT_INFO_POLICY: what happens to off-platform contact details in a
+   * message (contactInfo.ts) – "mask" hides them, "flag" only reports them.
+   */
+  MESSAGING: {
+    PRESENCE_TTL_SEC: 60,
+    PREVIEW_MAX_CHARS: 120,
+    MAX_MESSAGE_CHARS: 2000,
+    CONTACT_INFO_POLICY: {
+      payment: "mask",
+      phone: "mask",
+      email: "mask",
+      link: "flag",
+    },
+  },
+
+  // Pattern search quota: active searches per user (see
+  // matching/searchLifecycle.ts)
+  MAX_ACTIVE_PATTERN_SEARCHES: 10,
+
+  // Firestore array-contains-any accepts at most 30 values per query
+  FIRESTORE_IN_QUERY_LIMIT: 30,
+
   // Unit conversions
   OUNCES_PER_POUND: 16,
 
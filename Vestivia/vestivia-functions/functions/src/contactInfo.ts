@@ -0,0 +1,148 @@
+// contactInfo.ts - Off-platform contact / payment details in chat messages
+import {AppConstants} from "./constants";
+
+export type ContactInfoKind = "payment" | "phone" | "email" | "link";
+export type ContactInfoAction = "mask" | "flag";
+
+export interface ContactInfoFinding {
+  kind: ContactInfoKind;
+  match: string;
+  index: number;
+}
+
+export interface ContactInfoResult {
+  findings: ContactInfoFinding[];
+  // Kinds found, in detection order, without duplicates
+  kinds: ContactInfoKind[];
+  // Text with every finding whose policy is "mask" replaced by MASK
+  maskedText: string;
+  masked: boolean;
+}
+
+export const MASK = "[removed]";
+
+// Payment apps and contact context words that make a nearby handle or bare
+// number a contact detail
+const PAYMENT_APP = String.raw`\b(?:venmo|zelle|cash\s?app|paypal)\b`;
+const PHONE_CONTEXT =
+  String.raw`\b(?:call|text|txt|phone|cell|number|whatsapp)\b`;
+// @name, or a bare name with a digit, "_" or "-" in it ("jane22", "jane-doe")
+const PAYMENT_HANDLE =
+  String.raw`@[A-Z0-9_-]{3,30}\b|\b[A-Z][A-Z0-9_-]*[0-9_-][A-Z0-9_-]*\b`;
+// Ten digits with no separators, optionally +1
+const BARE_NUMBER = String.raw`(?:\+?1)?[2-9]\d{2}[2-9]\d{6}(?!\d)`;
+const FORMATTED_NUMBER =
+  String.raw`(?<![\w#$])(?:\+?1[\s.-]?)?` +
+  String.raw`(?:\(\s*[2-9]\d{2}\s*\)\s*|[2-9]\d{2}[\s.-])` +
+  String.raw`[2-9]\d{2}[\s.-]\d{4}(?!\d)`;
+const LINK_TLD = "(?:com|net|org|me|co|io|ly|shop|store|app)";
+const LINK =
+  String.raw`\b(?:https?://|www\.)\S+|` +
+  String.raw`\b(?:[A-Z0-9-]+\.)+${LINK_TLD}\b(?:/\S*)?`;
+
+// Order matters: earlier kinds claim overlapping spans (an email is not also a
+// link)
+const PATTERNS: [ContactInfoKind, RegExp][] = [
+  ["email", /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi],
+  // Profile links, $cashtags, and handles shortly after a payment app ("venmo
+  // me @jane", "cashapp: jane-22").
+  // Naming an app ("do you take venmo?") or an @mention on its own is fine.
+  ["payment", /\b(?:paypal\.me|venmo\.com|cash\.app)\/\S+/gi],
+  ["payment", /(?<![\w$])\$[A-Z][A-Z0-9_-]{2,20}\b/gi],
+  [
+    "payment",
+    new RegExp(
+      String.raw`(?<=${PAYMENT_APP}[^\n]{0,20}?)(?:${PAYMENT_HANDLE})`,
+      "gi"
+    ),
+  ],
+  // Zelle / Venmo by phone number ("zelle 5552013344"); formatted numbers are
+  // caught as phones below
+  [
+    "payment",
+    new RegExp(
+      String.raw`(?<=${PAYMENT_APP}[^\d\n]{0,20})${BARE_NUMBER}`,
+      "gi"
+    ),
+  ],
+  // Formatted US numbers ("(555) 201-3344", "+1 555.201.3344"); bare digit runs
+  // only after a contact word, so order and tracking numbers stay intact
+  ["phone", new RegExp(FORMATTED_NUMBER, "g")],
+  [
+    "phone",
+    new RegExp(
+      String.raw`(?<=${PHONE_CONTEXT}[^\d\n]{0,20})${BARE_NUMBER}`,
+      "gi"
+    ),
+  ],
+  ["link", new RegExp(LINK, "gi")],
+];
+
+// Our own links are fine to share; the full host must match exactly
+const ALLOWED_LINK_HOSTS = new Set([
+  "vestivia.com",
+  "www.vestivia.com",
+  "vestivia.app",
+  "www.vestivia.app",
+]);
+
+/**
+ * Vestivia's own links and deep links are not flagged.
+ * @param {string} link
+ * @return {boolean}
+ */
+function isAllowedLink(link: string): boolean {
+  if (/^vestivia:\/\//i.test(link)) return true;
+  const host = link.replace(/^https?:\/\//i, "").split(/[/?#:]/)[0] ?? "";
+  return ALLOWED_LINK_HOSTS.has(host.toLowerCase().replace(/\.$/, ""));
+}
+
+/**
+ * Configured action for a kind of contact info.
+ * @param {ContactInfoKind} kind
+ * @return {ContactInfoAction}
+ */
+export function contactInfoPolicy(kind: ContactInfoKind): ContactInfoAction {
+  return AppConstants.MESSAGING.CONTACT_INFO_POLICY[kind];
+}
+
+/**
+ * Find off-platform contact details in a message and mask the ones
+ * the policy says to mask.
+ * @param {string} text
+ * @return {ContactInfoResult}
+ */
+export function detectContactInfo(text: string): ContactInfoResult {
+  const findings: ContactInfoFinding[] = [];
+  const claimed: [number, number][] = [];
+  const overlaps = (start: number, end: number) =>
+    claimed.some(([s, e]) => start < e && end > s);
+
+  for (const [kind, pattern] of PATTERNS) {
+    for (const m of text.matchAll(pattern)) {
+      const index = m.index ?? 0;
+      const end = index + m[0].length;
+      if (overlaps(index, end)) continue;
+      if (kind === "link" && isAllowedLink(m[0])) continue;
+      findings.push({kind, match: m[0], index});
+      claimed.push([index, end]);
+    }
+  }
+  findings.sort((a, b) => a.index - b.index);
+
+  let maskedText = "";
+  let cursor = 0;
+  for (const f of findings) {
+    if (contactInfoPolicy(f.kind) !== "mask") continue;
+    maskedText += text.slice(cursor, f.index) + MASK;
+    cursor = f.index + f.match.length;
+  }
+  maskedText += text.slice(cursor);
+
+  return {
+    findings,
+    kinds: Array.from(new Set(findings.map((f) => f.kind))),
+    maskedText,
+    masked: maskedText !== text,
+  };
+}
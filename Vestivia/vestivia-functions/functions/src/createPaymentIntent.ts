@@ -1,8 +1,9 @@
 // --- createPaymentIntent (callable) ---
-import { onCall, HttpsError } from "firebase-functions/v2/https";
-import { defineSecret } from "firebase-functions/params";
+import {onCall, HttpsError} from "firebase-functions/v2/https";
+import {defineSecret} from "firebase-functions/params";
 import Stripe from "stripe";
 import crypto from "crypto";
+import {groupCheckout} from "./matching/groups";
 
 const STRIPE_SECRET_KEY = defineSecret("STRIPE_SECRET_KEY");
 
@@ -26,6 +27,7 @@ export const createPaymentIntent = onCall(
       currency = "usd",
       shipping,
       listingId,
+      groupId,
       buyerId,
       sellerId,
     } = req.data ?? {};
@@ -33,7 +35,14 @@ export const createPaymentIntent = onCall(
     // ⚠️ This endpoint does NOT calculate sales tax.
     // Use `initFlowController` for checkout with Stripe Tax.
 
-    if (!Number.isInteger(amount) || amount <= 0) {
+    // Sibling-set group: buy every set in one order (price, listingIds and
+    // sellerId come from the group)
+    const group = groupId ?
+      await groupCheckout(String(groupId), uid || buyerId || null) :
+      null;
+    const chargeAmount: number = group ? group.amount : amount;
+
+    if (!Number.isInteger(chargeAmount) || chargeAmount <= 0) {
       throw new HttpsError("invalid-argument", "amount must be a positive integer (cents).");
     }
 
@@ -41,16 +50,17 @@ export const createPaymentIntent = onCall(
     if (listingId) metadata["listingId"] = String(listingId);
     if (buyerId) metadata["buyerId"] = String(buyerId);
     if (sellerId) metadata["sellerId"] = String(sellerId);
+    if (group) Object.assign(metadata, group.metadata);
 
     // Generate idempotency key to prevent duplicate PaymentIntents on retry
     const idempotencyKey = generateIdempotencyKey(
       uid || buyerId || "anonymous",
-      listingId || "checkout",
-      amount
+      groupId || listingId || "checkout",
+      chargeAmount
     );
 
     const params = {
-      amount,
+      amount: chargeAmount,
       currency,
       automatic_payment_methods: { enabled: true }, // Apple Pay etc.
       metadata,
@@ -0,0 +1,235 @@
+// functions/src/hashIndexBackfill.ts
+import {onSchedule} from "firebase-functions/v2/scheduler";
+import * as admin from "firebase-admin";
+import {computeHashSetFromBuffer} from "./hashing";
+import {computeSimilarityFeatures} from "./similarity";
+import {assessPatternQuality} from "./quality";
+import {
+  getHashIndexEntry,
+  parsePatternPath,
+  upsertHashIndexEntry,
+} from "./matching/hashIndex";
+import {INACTIVE_LISTING_STATUSES} from "./matching/lifecycle";
+import {resolveListingContexts} from "./matching/listings";
+import {jobsCollection} from "./matching/rematch";
+
+// Ensure Admin SDK is initialized even when this module is imported directly
+if (admin.apps.length === 0) {
+  admin.initializeApp();
+}
+
+const db = admin.firestore();
+
+/**
+ * One-time backfill of pattern_hash_index / pattern_hash_global from Storage.
+ *
+ * Pattern images uploaded before the index existed (or before a collection
+ * rename) are only in Storage; this lists every PREFIXES image and indexes it
+ * exactly like the finalize triggers do (quality gate, hash set, features).
+ * Images already indexed at the current algorithm version, rejected images
+ * and images of inactive listings are skipped.
+ *
+ * Checkpoint: hash_index_backfill/current
+ *   status     – "pending" | "running" | "done" | "failed"
+ *   prefixIndex / pageToken – the Storage listing page a run resumes from
+ *   stats      – { scanned, indexed, skipped, failed }
+ * A missing doc starts the backfill; setting { status: "pending" } on a
+ * finished one runs it again from the top. When done, a manual rematch_jobs
+ * doc is queued so the new entries are matched (see rematchBackfill).
+ */
+const PREFIXES = [
+  "active_listing_patterns/brands/",
+  "users_active_patterns/",
+  "pattern_queries/",
+];
+
+// Storage objects per page; the checkpoint is written after each page
+const PAGE_SIZE = 50;
+// Leave headroom under timeoutSeconds for the final checkpoint write
+const RUN_BUDGET_MS = 7 * 60 * 1000;
+const MAX_ATTEMPTS = 5;
+
+interface IndexBackfillState {
+  status: "pending" | "running" | "done" | "failed";
+  prefixIndex: number;
+  pageToken: string | null;
+  stats: {scanned: number; indexed: number; skipped: number; failed: number};
+}
+
+const stateRef = () => db.collection("hash_index_backfill").doc("current");
+
+/**
+ * State for a backfill that has not started.
+ * @return {IndexBackfillState}
+ */
+function freshState(): IndexBackfillState {
+  return {
+    status: "pending",
+    prefixIndex: 0,
+    pageToken: null,
+    stats: {scanned: 0, indexed: 0, skipped: 0, failed: 0},
+  };
+}
+
+/**
+ * Index one page of `PREFIXES[state.prefixIndex]` and return the next
+ * checkpoint.
+ * @param {IndexBackfillState} state
+ */
+async function backfillPage(
+  state: IndexBackfillState
+): Promise<IndexBackfillState> {
+  const next: IndexBackfillState = {
+    ...state,
+    stats: {...state.stats},
+    status: "running",
+  };
+  const prefix = PREFIXES[state.prefixIndex];
+  if (prefix === undefined) return {...next, status: "done"};
+
+  const bucket = admin.storage().bucket();
+  const [files, nextQuery] = await bucket.getFiles({
+    prefix,
+    maxResults: PAGE_SIZE,
+    autoPaginate: false,
+    ...(state.pageToken ? {pageToken: state.pageToken} : {}),
+  });
+
+  const parsedFiles = files.flatMap((file) => {
+    const parsed = parsePatternPath(file.name);
+    return parsed ? [{file, parsed}] : [];
+  });
+  next.stats.scanned += files.length;
+  next.stats.skipped += files.length - parsedFiles.length;
+
+  const listingIds = parsedFiles
+    .map((f) => f.parsed.listingId)
+    .filter((id): id is string => !!id);
+  const listings = listingIds.length ?
+    await resolveListingContexts(listingIds) :
+    new Map();
+
+  for (const {file, parsed} of parsedFiles) {
+    try {
+      const status = parsed.listingId ?
+        listings.get(parsed.listingId)?.status :
+        null;
+      if (
+        (status && INACTIVE_LISTING_STATUSES.includes(status)) ||
+        (await getHashIndexEntry(parsed.brandLower, parsed.path))
+      ) {
+        next.stats.skipped++;
+        continue;
+      }
+      const [buf] = await file.download();
+      if ((await assessPatternQuality(buf)).status === "rejected") {
+        next.stats.skipped++;
+        continue;
+      }
+      const hashes = await computeHashSetFromBuffer(buf);
+      const features = await computeSimilarityFeatures(buf);
+      await upsertHashIndexEntry(parsed, hashes, {
+        bucket: bucket.name,
+        features,
+      });
+      next.stats.indexed++;
+    } catch (e) {
+      next.stats.failed++;
+      console.warn("[INDEX_BACKFILL] file:fail", {
+        path: file.name,
+        err: String(e),
+      });
+    }
+  }
+
+  const pageToken = nextQuery?.pageToken ?? null;
+  next.pageToken = pageToken;
+  if (!pageToken) {
+    next.prefixIndex++;
+    if (next.prefixIndex >= PREFIXES.length) next.status = "done";
+  }
+  return next;
+}
+
+// ───────── Scheduled: resumable hash index backfill ─────────
+/**
+ * Runs every 15 minutes until hash_index_backfill/current is "done", indexing
+ * page by page and checkpointing after each page until the run budget is used
+ * up. A page that keeps failing marks the backfill "failed" after MAX_ATTEMPTS.
+ */
+export const hashIndexBackfill = onSchedule(
+  {
+    region: "us-central1",
+    schedule: "*/15 * * * *",
+    timeoutSeconds: 540,
+    memory: "1GiB",
+  },
+  async () => {
+    const started = Date.now();
+    const snap = await stateRef().get();
+    const data = snap.data() as Partial<IndexBackfillState> | undefined;
+    if (data?.status === "done" || data?.status === "failed") {
+      console.log("[INDEX_BACKFILL] idle", {status: data.status});
+      return;
+    }
+    // Missing doc or a manual { status: "pending" } reset starts from the top
+    let state: IndexBackfillState =
+      data?.status === "running" && data.stats ?
+        (data as IndexBackfillState) :
+        freshState();
+    console.log("[INDEX_BACKFILL] resume", {
+      prefixIndex: state.prefixIndex,
+      pageToken: state.pageToken,
+    });
+
+    while (state.status !== "done" && Date.now() - started < RUN_BUDGET_MS) {
+      try {
+        state = await backfillPage(state);
+        await stateRef().set(
+          {
+            ...state,
+            attempts: 0,
+            lastError: null,
+            updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+          },
+          {merge: true}
+        );
+      } catch (e) {
+        const attempts = ((await stateRef().get()).get("attempts") ?? 0) + 1;
+        const failed = attempts >= MAX_ATTEMPTS;
+        await stateRef().set(
+          {
+            attempts,
+            lastError: String(e),
+            ...(failed ? {status: "failed"} : {}),
+            updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+          },
+          {merge: true}
+        );
+        console.error("[INDEX_BACKFILL] page:fail", {
+          attempts,
+          failed,
+          err: String(e),
+        });
+        return;
+      }
+    }
+
+    if (state.status === "done") {
+      await stateRef().set(
+        {finishedAt: admin.firestore.FieldValue.serverTimestamp()},
+        {merge: true}
+      );
+      const job = await jobsCollection().add({
+        status: "pending",
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      console.log("[INDEX_BACKFILL] rematch:queued", {jobId: job.id});
+    }
+    console.log("[INDEX_BACKFILL] run:end", {
+      status: state.status,
+      stats: state.stats,
+      ms: Date.now() - started,
+    });
+  }
+);
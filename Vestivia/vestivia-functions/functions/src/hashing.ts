@@ -30,4 +30,140 @@ export function hammingHex(aHex: string, bHex: string): number {
   const b = bHex.padStart(16, "0");
   const x = BigInt("0x" + a) ^ BigInt("0x" + b);
   return popcountBigInt(x);
-}
\ No newline at end of file
+}
+// ─────────────── Transform-robust hash sets ───────────────
+
+/**
+ * Labels for the image variants hashed per pattern image.
+ * Buyer photos are often sideways, mirrored or zoomed in on the print, so each
+ * image is hashed under several transforms and matchers take the minimum
+ * distance.
+ */
+export type HashTransform =
+  | "identity"
+  | "rot90"
+  | "rot180"
+  | "rot270"
+  | "flipH"
+  | "crop75"
+  | "crop50"
+  | "tileTL"
+  | "tileTR"
+  | "tileBL"
+  | "tileBR";
+
+export type PatternHashSet = Partial<Record<HashTransform, string>>;
+
+type CropSpec = {
+  transform: HashTransform;
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+};
+type Bitmap = {width: number; height: number; data: Buffer};
+// imghash's untyped raw-bitmap entry point
+type RawHasher = {hashRaw: (bitmap: Bitmap, bits: number) => string};
+
+/**
+ * Centre crops (fraction of each side) plus a 2×2 grid of half-size tiles.
+ * @param {number} width
+ * @param {number} height
+ * @return {Array<CropSpec>}
+ */
+function cropSpecs(width: number, height: number): CropSpec[] {
+  const centre = (transform: HashTransform, f: number): CropSpec => {
+    const w = Math.max(1, Math.round(width * f));
+    const h = Math.max(1, Math.round(height * f));
+    return {
+      transform,
+      x: Math.floor((width - w) / 2),
+      y: Math.floor((height - h) / 2),
+      w,
+      h,
+    };
+  };
+  const hw = Math.max(1, Math.floor(width / 2));
+  const hh = Math.max(1, Math.floor(height / 2));
+  return [
+    centre("crop75", 0.75),
+    centre("crop50", 0.5),
+    {transform: "tileTL", x: 0, y: 0, w: hw, h: hh},
+    {transform: "tileTR", x: width - hw, y: 0, w: hw, h: hh},
+    {transform: "tileBL", x: 0, y: height - hh, w: hw, h: hh},
+    {transform: "tileBR", x: width - hw, y: height - hh, w: hw, h: hh},
+  ];
+}
+
+/**
+ * Compute the hash set for an image: the plain pHash plus rotations,
+ * a horizontal flip and centre/tile crops. If the image cannot be decoded
+ * by Jimp (e.g. webp) only the identity hash is returned.
+ * @param {Buffer|Uint8Array} buf
+ * @return {Promise<PatternHashSet>}
+ */
+export async function computeHashSetFromBuffer(
+  buf: Buffer | Uint8Array
+): Promise<PatternHashSet> {
+  const b = Buffer.isBuffer(buf) ? buf : Buffer.from(buf);
+  const set: PatternHashSet = {identity: await computeHexPHashFromBuffer(b)};
+
+  try {
+    const {Jimp} = await import("jimp");
+    const img = await Jimp.read(b);
+    const hashOf = (i: {bitmap: Bitmap}) =>
+      String((imghash as unknown as RawHasher).hashRaw(i.bitmap, 8));
+
+    set.rot90 = hashOf(img.clone().rotate(90));
+    set.rot180 = hashOf(img.clone().rotate(180));
+    set.rot270 = hashOf(img.clone().rotate(270));
+    set.flipH = hashOf(img.clone().flip({horizontal: true, vertical: false}));
+
+    const {width, height} = img.bitmap;
+    for (const c of cropSpecs(width, height)) {
+      set[c.transform] = hashOf(
+        img.clone().crop({x: c.x, y: c.y, w: c.w, h: c.h})
+      );
+    }
+  } catch (e) {
+    console.warn("[HASHING] transforms:fail – identity only", {err: String(e)});
+  }
+
+  return set;
+}
+
+/**
+ * Minimum Hamming distance between two hash sets, comparing each side's
+ * variants against the other side's identity hash. `transform` names the
+ * variant that produced the minimum ("identity" when the plain hashes win).
+ * @param {PatternHashSet} a
+ * @param {PatternHashSet} b
+ * @return {Object}
+ */
+export function minHammingOverSets(
+  a: PatternHashSet,
+  b: PatternHashSet
+): {distance: number; transform: HashTransform} {
+  let best = {
+    distance: Number.POSITIVE_INFINITY,
+    transform: "identity" as HashTransform,
+  };
+  const consider = (
+    x: string | undefined,
+    y: string | undefined,
+    transform: HashTransform
+  ) => {
+    if (!x || !y) return;
+    const d = hammingHex(x, y);
+    if (d < best.distance) best = {distance: d, transform};
+  };
+
+  consider(a.identity, b.identity, "identity");
+  for (const [t, h] of Object.entries(a) as [HashTransform, string][]) {
+    if (t !== "identity") consider(h, b.identity, t);
+  }
+  for (const [t, h] of Object.entries(b) as [HashTransform, string][]) {
+    if (t !== "identity") consider(a.identity, h, t);
+  }
+  return best;
+}
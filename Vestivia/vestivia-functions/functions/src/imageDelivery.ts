@@ -0,0 +1,38 @@
+// imageDelivery.ts - Signed Cloudflare Images delivery URLs
+import crypto from "crypto";
+
+export const DEFAULT_IMAGE_VARIANT = "card";
+
+/**
+ * Clamp a requested TTL to 1 minute – 6 hours (default 1 hour).
+ * @param {*} requested
+ * @return {number}
+ */
+export function signedUrlTtlSec(requested: unknown): number {
+  return Number.isFinite(requested) ?
+    Math.max(60, Math.min(6 * 3600, Number(requested))) :
+    3600;
+}
+
+/**
+ * https://imagedelivery.net/{hash}/{id}/{variant}?exp=…&sig=…
+ * The signature is HMAC-SHA256 of the path + exp query with the account signing
+ * key.
+ * @param {string} accountHash
+ * @param {string} signKey
+ * @param {string} id
+ * @param {string} variant
+ * @param {number} exp
+ * @return {string}
+ */
+export function signedImageUrl(
+  accountHash: string,
+  signKey: string,
+  id: string,
+  variant: string,
+  exp: number
+): string {
+  const path = `/${accountHash}/${id}/${variant}?exp=${exp}`;
+  const sig = crypto.createHmac("sha256", signKey).update(path).digest("hex");
+  return `https://imagedelivery.net/${accountHash}/${id}/${variant}?exp=${exp}&sig=${sig}`;
+}
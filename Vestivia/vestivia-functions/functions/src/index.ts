@@ -4,7 +4,21 @@ import { defineSecret } from "firebase-functions/params";
 import crypto from "crypto";
 import { onObjectFinalized } from "firebase-functions/v2/storage";
 import * as admin from "firebase-admin";
-import { computeHexPHashFromBuffer, hammingHex } from "./hashing";
+import { AppConstants } from "./constants";
+import { DEFAULT_IMAGE_VARIANT, signedImageUrl, signedUrlTtlSec } from "./imageDelivery";
+import { computeHashSetFromBuffer } from "./hashing";
+import { computeSimilarityFeatures } from "./similarity";
+import { deleteHashIndexEntry, parsePatternPath, upsertHashIndexEntry } from "./matching/hashIndex";
+import { LISTING_SOURCES, SEARCH_SOURCES, runMatching } from "./matching/engine";
+import { resolveListingContextWithRetry } from "./matching/listings";
+import { INACTIVE_LISTING_STATUSES } from "./matching/lifecycle";
+import { getBrandThreshold } from "./matching/thresholds";
+import { findCrossSellerDuplicates, flagDuplicateListing } from "./matching/duplicates";
+import { assignListingToPattern } from "./matching/patternCatalog";
+import { sendUserPush } from "./notifications";
+import { PatternSearchStatus, reserveSearchSlot, setSearchState } from "./matching/searchLifecycle";
+import { recordUploadStatus } from "./matching/uploadStatus";
+import { assessPatternQuality } from "./quality";
 
 // ─────────────── Secrets ───────────────
 const ALGOLIA_APP_ID        = defineSecret("ALGOLIA_APP_ID");
@@ -64,28 +78,6 @@ function logErr(ctx: string, err: unknown) {
   }
 }
 
-// ---- Query debug helpers ----
-function logQueryError(err: any, label: string, params: Record<string, any>) {
-  console.error(`[QERR] ${label}`, {
-    params,
-    code: (err && (err.code || err?.details?.code)) || undefined,
-    details: err?.details || undefined,
-    message: String(err),
-  });
-}
-
-async function probeCgQuery<T>(label: string, q: FirebaseFirestore.Query<T>) {
-  const t0 = Date.now();
-  try {
-    const snap = await q.get();
-    console.log(`[Q] ${label} ok`, { count: snap.size, ms: Date.now() - t0 });
-    return snap;
-  } catch (err) {
-    console.error(`[Q] ${label} error`, { ms: Date.now() - t0, message: String(err), code: (err as any)?.code });
-    throw err;
-  }
-}
-
 /**
  * Generate a secured Algolia API key without depending on algoliasearch typings.
  * See https://www.algolia.com/doc/guides/security/api-keys/how-to/user-restricted-access-to-data/
@@ -111,8 +103,9 @@ function generateSecuredApiKeyLocal(searchKey: string, restrictions: Record<stri
 }
 
 // ─────────────── Image matching utils ───────────────
-const PHASH_THRESHOLD = 14; // tune 12–16
-// Confidence score is derived as 1 - (hammingDistance / 64). Logged and stored with each hit.
+// pHash gate per brand: match_thresholds/{brandLower}.threshold, else PHASH_MATCH_THRESHOLD (see matching/thresholds.ts)
+// Confidence score is the weighted pHash/dHash/colour ensemble from similarity.ts.
+// Candidate lookup, scoring and inbox/audit writes live in matching/engine.ts.
 
 // ───────── 1) Algolia secured search key (with caching) ─────────
 export const getSecuredSearchKey = onCall(
@@ -292,17 +285,11 @@ export const getSignedImageUrl = onCall(
       let variant =
         typeof req.data?.variant === "string" && req.data.variant.trim()
           ? req.data.variant.trim()
-          : "card";
+          : DEFAULT_IMAGE_VARIANT;
 
-      const ttlSec =
-        Number.isFinite(req.data?.ttlSec)
-          ? Math.max(60, Math.min(6 * 3600, Number(req.data.ttlSec)))
-          : 3600;
-      const exp = Math.floor(Date.now() / 1000) + ttlSec;
+      const exp = Math.floor(Date.now() / 1000) + signedUrlTtlSec(req.data?.ttlSec);
 
-      const path = `/${hash}/${id}/${variant}?exp=${exp}`;
-      const sig = crypto.createHmac("sha256", signKey).update(path).digest("hex");
-      const url = `https://imagedelivery.net/${hash}/${id}/${variant}?exp=${exp}&sig=${sig}`;
+      const url = signedImageUrl(hash, signKey, id, variant, exp);
 
       // Optional probe for sanity (HEAD) if caller passes { probe: true }
       let status = 0;
@@ -354,28 +341,20 @@ export const getSignedImageUrls = onCall(
         .filter(Boolean);
 
       if (!ids.length) {
-        return { ok: true, urls: [], exp: Math.floor(Date.now() / 1000), variant: "card", count: 0 };
+        return { ok: true, urls: [], exp: Math.floor(Date.now() / 1000), variant: DEFAULT_IMAGE_VARIANT, count: 0 };
       }
 
       let variant =
         typeof req.data?.variant === "string" && req.data.variant.trim()
           ? req.data.variant.trim()
-          : "card";
+          : DEFAULT_IMAGE_VARIANT;
 
-      const ttlSec =
-        Number.isFinite(req.data?.ttlSec)
-          ? Math.max(60, Math.min(6 * 3600, Number(req.data.ttlSec)))
-          : 3600;
-      const exp = Math.floor(Date.now() / 1000) + ttlSec;
+      const exp = Math.floor(Date.now() / 1000) + signedUrlTtlSec(req.data?.ttlSec);
 
       const MAX = 50;
       const safeIds = ids.slice(0, MAX);
 
-      const urls = safeIds.map((id) => {
-        const path = `/${hash}/${id}/${variant}?exp=${exp}`;
-        const sig = crypto.createHmac("sha256", signKey).update(path).digest("hex");
-        return `https://imagedelivery.net/${hash}/${id}/${variant}?exp=${exp}&sig=${sig}`;
-      });
+      const urls = safeIds.map((id) => signedImageUrl(hash, signKey, id, variant, exp));
 
       console.log("[CF] batch signed_urls issued", {
         uid: req.auth?.uid ?? null,
@@ -395,7 +374,7 @@ export const getSignedImageUrls = onCall(
 );
 
 // ───────── 4) Listing pattern uploaded → match buyers ─────────
-export const onListingPatternUpload = onObjectFinalized({ bucket: "vest-9495e.firebasestorage.app", region: "us-central1", memory: "512MiB", timeoutSeconds: 120 }, async (event) => {
+export const onListingPatternUpload = onObjectFinalized({ bucket: "vest-9495e.firebasestorage.app", region: "us-central1", memory: "512MiB", timeoutSeconds: 120, secrets: [CF_ACCOUNT_HASH] }, async (event) => {
   try {
     const name = event.data?.name || "";
     const bucket = event.data?.bucket || undefined;
@@ -421,238 +400,106 @@ export const onListingPatternUpload = onObjectFinalized({ bucket: "vest-9495e.fi
       console.error("[LISTING_MATCH] download:fail", { name, bucket, err: String(e) });
       return;
     }
-    console.log("[LISTING_MATCH] phash:start");
-    const listingPhash = await computeHexPHashFromBuffer(buf as Buffer); // 64-bit hex
-    console.log("[LISTING_MATCH] phash:ok", { phash: listingPhash });
-
-    // We no longer resolve the listing doc here; inbox entries won’t include listingRef/sellerUid.
-    const sellerUid: string | null = null;
-    const listingRefPath: string | null = null;
-
-    // ── Compare against Storage-based query images ───────────────────────────
-    const storageHitsBatch = db.batch();
-    let storageMatchCount = 0;
-
-    // Helper: sanitize a GCS path for use as a doc id
-    const safeId = (p: string) => p.replace(/[/.#?\[\]]/g, "_");
-
-    type PrefixSpec = { label: string; prefix: string; extractUid?: (p: string) => string | null };
+    // Reject blurry / tiny / blank images before they enter the index
+    const parsedListing = parsePatternPath(name);
+    const quality = await assessPatternQuality(buf as Buffer);
+    console.log("[LISTING_MATCH] quality", { status: quality.status, reason: quality.reason, metrics: quality.metrics });
+    if (quality.status === "rejected") {
+      const owner = await resolveListingContextWithRetry(listingId, null);
+      if (parsedListing) {
+        await recordUploadStatus(parsedListing, quality, { ownerUid: owner.sellerUid, generation: event.data?.generation ?? null });
+        await deleteHashIndexEntry(parsedListing.brandLower, name);
+      }
+      console.log("[LISTING_MATCH] skipped:quality", { listingId, reason: quality.reason });
+      return;
+    }
 
-    const prefixes: PrefixSpec[] = [
-      // Static queries you may upload manually
-      { label: "pattern_queries", prefix: `pattern_queries/${brandLower}/` },
-      // Active buyer queries: users_active_patterns/{uid}/{brandLower}/...
-      {
-        label: "users_active_patterns",
-        prefix: `users_active_patterns/`,
-        extractUid: (p: string) => {
-          // Expect: users_active_patterns/{uid}/{brandLower}/...
-          const parts = p.split("/");
-          if (parts.length >= 3 && parts[0] === "users_active_patterns" && (parts[2] || "").toLowerCase() === brandLower) {
-            return parts[1] || null;
-          }
-          return null;
-        },
-      },
-    ];
+    console.log("[LISTING_MATCH] phash:start");
+    // 64-bit hex pHash plus rotated / mirrored / cropped variants
+    const listingHashes = await computeHashSetFromBuffer(buf as Buffer);
+    const listingFeatures = await computeSimilarityFeatures(buf as Buffer);
+    console.log("[LISTING_MATCH] phash:ok", { phash: listingHashes.identity, variants: Object.keys(listingHashes).length });
+
+    // Listing preview (seller, price, size, title, primary image) for inbox entries and the push
+    const imageAccountHash = CF_ACCOUNT_HASH.value() || null;
+    const listing = await resolveListingContextWithRetry(listingId, imageAccountHash);
+    console.log("[LISTING_MATCH] listing", { listingId, sellerUid: listing.sellerUid, refPath: listing.refPath, hasImage: !!listing.primaryImageUrl });
+    if (parsedListing) {
+      await recordUploadStatus(parsedListing, quality, { ownerUid: listing.sellerUid, generation: event.data?.generation ?? null });
+    }
+    // Sold / removed listings stay out of the index (an upload can land after the status change)
+    if (listing.status && INACTIVE_LISTING_STATUSES.includes(listing.status)) {
+      if (parsedListing) await deleteHashIndexEntry(parsedListing.brandLower, name);
+      console.log("[LISTING_MATCH] skipped", { listingId, status: listing.status });
+      return;
+    }
 
-    for (const spec of prefixes) {
+    // Index the listing hash once so buyer-side matching never re-downloads this image
+    if (parsedListing) {
       try {
-        // Paginate through files under the prefix, but cap total examined to avoid timeouts
-        const MAX_FILES_SCAN = 1000; // safety cap per invocation
-        const exts = [".jpg", ".jpeg", ".png", ".webp"];
-        let pageToken: string | undefined = undefined;
-        let collected: import("@google-cloud/storage").File[] = [];
-
-        while (collected.length < MAX_FILES_SCAN) {
-          const pageSize = Math.min(500, MAX_FILES_SCAN - collected.length);
-          const getFilesOpts: import("@google-cloud/storage").GetFilesOptions = {
-            prefix: spec.prefix,
-            maxResults: pageSize,
-            autoPaginate: false,
-          };
-          if (pageToken) {
-            getFilesOpts.pageToken = pageToken;
-          }
-          const resp = await bucketFor(bucket).getFiles(getFilesOpts);
-
-          // resp is a tuple; typings vary by version, so extract defensively
-          const respAny = resp as unknown;
-          const page = (respAny as [import("@google-cloud/storage").File[], unknown])[0];
-          const meta = (respAny as [unknown, { pageToken?: string; nextPageToken?: string; nextPageRequest?: { pageToken?: string } } | null])[1];
-          const nextPageToken: string | undefined =
-            (meta && (meta.pageToken || meta.nextPageToken || meta.nextPageRequest?.pageToken)) || undefined;
-
-          collected.push(...page);
-          pageToken = nextPageToken;
-          if (!pageToken) break;
-        }
-
-        // Filter to this brand when scanning users_active_patterns, and keep only images
-        const brandFiltered = collected.filter((f) => {
-          const nm = f.name || "";
-          if (!nm || nm.endsWith("/")) return false; // skip pseudo-folders
-          const lower = nm.toLowerCase();
-          const isImage = exts.some((e) => lower.endsWith(e));
-          if (!isImage) return false;
-
-          if (spec.label === "users_active_patterns") {
-            const segs = nm.split("/");
-            // users_active_patterns/{uid}/{brandLower}/...
-            return segs.length >= 3 && segs[0] === "users_active_patterns" && (segs[2] || "").toLowerCase() === brandLower;
-          }
-          // pattern_queries/{brandLower}/...
-          return lower.startsWith(`pattern_queries/${brandLower}/`);
-        });
-
-        console.log("[LISTING_MATCH] storage:files", { label: spec.label, prefixTried: spec.prefix, count: brandFiltered.length, cappedAt: MAX_FILES_SCAN });
-
-        let peeked = 0;
-        for (const f of brandFiltered) {
-          const filePath = f.name || "";
-          if (!filePath || filePath.endsWith("/")) continue; // skip pseudo-folders
-          const lowerPath = filePath.toLowerCase();
-          if (!(lowerPath.endsWith(".jpg") || lowerPath.endsWith(".jpeg") || lowerPath.endsWith(".png") || lowerPath.endsWith(".webp"))) continue;
-
-          let qbuf: Buffer | null = null;
-          try {
-            const dl = await f.download();
-            qbuf = dl[0] as Buffer;
-          } catch (e) {
-            console.warn("[LISTING_MATCH] storage:download:fail", { path: filePath, err: String(e) });
-            continue;
-          }
-          if (!qbuf || qbuf.length < 32) continue;
-
-          // Compute query image pHash
-          let qhash: string;
-          try {
-            qhash = await computeHexPHashFromBuffer(qbuf);
-          } catch (e) {
-            console.warn("[LISTING_MATCH] storage:phash:fail", { path: filePath, err: String(e) });
-            continue;
-          }
-
-          const dist = hammingHex(listingPhash, qhash);
-          if (peeked < 5) {
-            console.log("[LISTING_MATCH] storage:compare", { label: spec.label, path: filePath, dist });
-            peeked++;
-          }
+        await upsertHashIndexEntry(parsedListing, listingHashes, { bucket: bucket ?? null, features: listingFeatures });
+        console.log("[LISTING_MATCH] index:ok", { path: name });
+      } catch (e) {
+        console.warn("[LISTING_MATCH] index:fail", { path: name, err: String(e) });
+      }
+    }
 
-          if (dist <= PHASH_THRESHOLD) {
-            storageMatchCount++;
-            const score = 1 - dist / 64;
-            const hitDoc = db.collection("matches_by_listing").doc(listingId).collection("storage_hits").doc(safeId(filePath));
-            const uidFromPath = spec.extractUid ? spec.extractUid(filePath) : null;
-            storageHitsBatch.set(
-              hitDoc,
-              {
-                path: filePath,
-                brandLower,
-                score,
-                phash: qhash,
-                sourceLabel: spec.label,
-                uid: uidFromPath || null,
-                createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    // Same photo on another seller's active listing → moderation flag + seller warning
+    if (listingHashes.identity && listing.sellerUid) {
+      try {
+        const duplicates = await findCrossSellerDuplicates(listingId, listing, listingHashes.identity);
+        if (duplicates.length) {
+          const isNew = await flagDuplicateListing(listingId, listing, name, brandLower, duplicates);
+          console.log("[LISTING_MATCH] duplicate", { listingId, matched: duplicates.map((d) => d.listingId), isNew });
+          if (isNew) {
+            await sendUserPush(listing.sellerUid, {
+              category: "account",
+              title: "Check your listing photo",
+              body: "Your pattern photo matches another seller's listing. Please use your own photo of the item.",
+              analyticsLabel: "listing_warning",
+              data: {
+                type: "listing_warning",
+                reason: "duplicate_image",
+                listingId,
+                deeplink: `vestivia://listing/${encodeURIComponent(listingId)}`,
               },
-              { merge: true }
-            );
-
-            // If the path encodes a buyer uid (users_active_patterns), also notify them directly
-            if (uidFromPath) {
-              const inboxRef = db.collection("users").doc(uidFromPath).collection("matchInbox").doc(listingId);
-              storageHitsBatch.set(
-                inboxRef,
-                {
-                  listingId,
-                  sellerUid: null,
-                  searchId: null,
-                  brandLower,
-                  score,
-                  listingRef: null,
-                  createdAt: admin.firestore.FieldValue.serverTimestamp(),
-                  seen: false,
-                  source: spec.label, // 'users_active_patterns'
-                },
-                { merge: true }
-              );
-            }
+            });
           }
         }
       } catch (e) {
-        console.error("[LISTING_MATCH] storage:list:fail", { label: spec.label, prefix: spec.prefix, err: String(e) });
+        console.warn("[LISTING_MATCH] duplicate:fail", { listingId, err: String(e) });
       }
     }
 
-    if (storageMatchCount) {
-      console.log("[LISTING_MATCH] storage:batch:commit:start", { storageMatchCount });
-      await storageHitsBatch.commit();
-      console.log("[LISTING_MATCH] storage:batch:commit:ok", { storageMatchCount });
-    }
-
-    console.log("[LISTING_MATCH] lookup:skipped", { reason: "listingRef resolution disabled" });
-
-    // Candidate buyer searches for this brand (with composite-index fallback)
-    let searchesDocs: FirebaseFirestore.QueryDocumentSnapshot[] = [];
-    console.log("[LISTING_MATCH] searches:start", { brandLower });
+    // Named pattern catalog: join the nearest pattern (or seed one) before matching
+    // so patternFollowersSource can deliver to its followers
     try {
-      const activeSnap = await probeCgQuery(
-        "patternSearches active (brandLower == & isActive == true)",
-        db
-          .collectionGroup("patternSearches")
-          .where("brandLower", "==", brandLower)
-          .where("isActive", "==", true)
-      );
-      searchesDocs = activeSnap.docs;
-      console.log("[LISTING_MATCH] searches:end", { mode: "active", count: searchesDocs.length });
-    } catch (err) {
-      // Common when composite index isn't ready: FAILED_PRECONDITION
-      logQueryError(err, "patternSearches active (composite failed) → fallback to brandOnly + in-memory filter", { brandLower });
-      const brandOnlySnap = await probeCgQuery(
-        "patternSearches brandOnly (fallback)",
-        db.collectionGroup("patternSearches").where("brandLower", "==", brandLower)
-      );
-      searchesDocs = brandOnlySnap.docs.filter((d) => d.get("isActive") === true);
-      console.log("[LISTING_MATCH] searches:end", { mode: "brandOnlyFallback", count: searchesDocs.length });
+      const assigned = await assignListingToPattern(brandLower, listingId, listing, listingHashes);
+      console.log("[LISTING_MATCH] pattern", { listingId, ...assigned });
+    } catch (e) {
+      console.warn("[LISTING_MATCH] pattern:fail", { listingId, err: String(e) });
     }
 
+    const threshold = await getBrandThreshold(brandLower);
+    console.log("[LISTING_MATCH] threshold", { brandLower, threshold });
 
-    const batch = db.batch();
-    let matchCount = 0;
-    let inspected = 0;
-    for (const s of searchesDocs) {
-      const sPhash = s.get("phash") as string | undefined;
-      if (!sPhash) continue;
-      const uid = s.ref.parent.parent?.id; // users/{uid}/patternSearches
-      if (!uid) continue;
-      if (inspected < 5) {
-        try {
-          const sPhashPeek = s.get("phash") as string | undefined;
-          if (sPhashPeek && uid) {
-            const peekDist = hammingHex(listingPhash, sPhashPeek);
-            console.log("[LISTING_MATCH] compare", { uid, searchId: s.id, dist: peekDist });
-          }
-        } catch {}
-        inspected++;
-      }
-      const dist = hammingHex(listingPhash, sPhash);
-      if (dist <= PHASH_THRESHOLD) {
-        matchCount++;
-        const score = 1 - dist / 64;
-        // Audit record
-        const auditRef = db.collection("matches_by_listing").doc(listingId).collection("hits").doc(uid);
-        batch.set(auditRef, { uid, searchId: s.id, brandLower, score, createdAt: admin.firestore.FieldValue.serverTimestamp() }, { merge: true });
-        // Inbox delivery
-        const inboxRef = db.collection("users").doc(uid).collection("matchInbox").doc(listingId);
-        batch.set(inboxRef, { listingId, sellerUid, searchId: s.id, brandLower, score, listingRef: listingRefPath, createdAt: admin.firestore.FieldValue.serverTimestamp(), seen: false }, { merge: true });
-      }
-    }
-
-    if (matchCount) {
-      console.log("[LISTING_MATCH] batch:commit:start", { matchCount });
-      await batch.commit();
-      console.log("[LISTING_MATCH] batch:commit:ok", { matchCount });
-    }
+    // Match static queries + active buyer searches through the shared engine
+    const delivered = await runMatching(
+      {
+        brandLower,
+        threshold,
+        hashes: listingHashes,
+        features: listingFeatures,
+        bucketName: bucket ?? null,
+        imageAccountHash,
+        listingId,
+        listing,
+        uid: null,
+        searchId: null,
+      },
+      LISTING_SOURCES
+    );
+    const matchCount = delivered.length;
     console.log("[LISTING_MATCH] done", { listingId, brandLower, matchCount });
   } catch (err) {
     console.error("[onListingPatternUpload]", err);
@@ -661,7 +508,7 @@ export const onListingPatternUpload = onObjectFinalized({ bucket: "vest-9495e.fi
 
 // ───────── 5) Buyer pattern uploaded → backfill matches ─────────
 export const onBuyerPatternUpload = onObjectFinalized(
-  { bucket: "vest-9495e.firebasestorage.app", region: "us-central1", memory: "512MiB", timeoutSeconds: 120 },
+  { bucket: "vest-9495e.firebasestorage.app", region: "us-central1", memory: "512MiB", timeoutSeconds: 120, secrets: [CF_ACCOUNT_HASH] },
   async (event) => {
     try {
       const name = event.data?.name || "";
@@ -694,9 +541,14 @@ export const onBuyerPatternUpload = onObjectFinalized(
         return;
       }
 
+      const quality = await assessPatternQuality(buf2 as Buffer);
+      console.log("[SEARCH_BACKFILL] quality", { status: quality.status, reason: quality.reason, metrics: quality.metrics });
+
       console.log("[SEARCH_BACKFILL] phash:start");
-      const searchPhash = await computeHexPHashFromBuffer(buf2 as Buffer);
-      console.log("[SEARCH_BACKFILL] phash:ok", { phash: searchPhash });
+      const searchHashes = await computeHashSetFromBuffer(buf2 as Buffer);
+      const searchFeatures = await computeSimilarityFeatures(buf2 as Buffer);
+      const searchPhash = searchHashes.identity;
+      console.log("[SEARCH_BACKFILL] phash:ok", { phash: searchPhash, variants: Object.keys(searchHashes).length });
 
       // 2) Upsert/locate a search doc (attach phash & imagePath)
       let searchRef = db.collection("users").doc(uid).collection("patternSearches").doc();
@@ -709,187 +561,109 @@ export const onBuyerPatternUpload = onObjectFinalized(
       const existingDoc = existing.docs[0];
       if (existingDoc) searchRef = existingDoc.ref;
 
+      // An upload (re)activates the search unless the image failed the quality gate
+      // or the user is at their active-search quota
+      const accepted = quality.status === "accepted";
+      const withinQuota = accepted && (await reserveSearchSlot(uid, searchRef.id));
+      const status: PatternSearchStatus = !accepted ? "rejected" : withinQuota ? "active" : "quota_exceeded";
+
       await searchRef.set(
         {
           brandLower,
           imagePath: name,
           phash: searchPhash,
-          isActive: true,
+          anyBrand: brandLower === AppConstants.ANY_BRAND,
+          isActive: withinQuota,
+          status,
+          qualityReason: quality.reason,
           updatedAt: admin.firestore.FieldValue.serverTimestamp(),
         },
         { merge: true }
       );
-      console.log("[SEARCH_BACKFILL] searchRef", { path: searchRef.path, id: searchRef.id });
-
-      // 3) Scan Storage for listing patterns for this brand
-      const listingsPrefix = `active_listing_patterns/brands/${brandLower}/`;
-      console.log("[SEARCH_BACKFILL] storage:list:start", { prefix: listingsPrefix });
+      console.log("[SEARCH_BACKFILL] searchRef", { path: searchRef.path, id: searchRef.id, status });
 
-      let files: import("@google-cloud/storage").File[] = [];
-      try {
-        const [all] = await bucketFor(bucket).getFiles({ prefix: listingsPrefix });
-        // keep only actual pattern files (skip folders/other files)
-        files = all.filter((f) => (f.name || "").endsWith("/pattern.jpg"));
-        console.log("[SEARCH_BACKFILL] storage:list:ok", { total: all.length, filtered: files.length });
-      } catch (e) {
-        console.error("[SEARCH_BACKFILL] storage:list:fail", { prefix: listingsPrefix, err: String(e) });
+      const parsedSearch = parsePatternPath(name);
+      if (parsedSearch) {
+        await recordUploadStatus(parsedSearch, quality, { ownerUid: uid, searchId: searchRef.id, generation: event.data?.generation ?? null });
+      }
+      if (!accepted) {
+        // Also pause the app's active_searches item so its pattern_queries image stops matching
+        await setSearchState(uid, searchRef.id, { imagePath: name }, false, "rejected");
+        if (parsedSearch) await deleteHashIndexEntry(parsedSearch.brandLower, name);
+        console.log("[SEARCH_BACKFILL] skip:quality", { uid, searchId: searchRef.id, reason: quality.reason });
         return;
       }
 
-      // Helper to batch resolve listing mirrors
-      async function batchResolveMirrors(listingIds: string[]): Promise<Map<string, { refPath: string | null; sellerUid: string | null }>> {
-        const results = new Map<string, { refPath: string | null; sellerUid: string | null }>();
-
-        if (listingIds.length === 0) return results;
-
-        // Firestore getAll supports up to 100 documents per call
-        const BATCH_SIZE = 100;
-        const chunks: string[][] = [];
-        for (let i = 0; i < listingIds.length; i += BATCH_SIZE) {
-          chunks.push(listingIds.slice(i, i + BATCH_SIZE));
-        }
-
-        console.log("[SEARCH_BACKFILL] mirror:batch:start", { total: listingIds.length, chunks: chunks.length });
-
-        for (const chunk of chunks) {
-          try {
-            const refs = chunk.map((id) => db.collection("listing_by_id").doc(id));
-            const docs = await db.getAll(...refs);
-
-            for (let i = 0; i < docs.length; i++) {
-              const doc = docs[i];
-              const listingId = chunk[i];
-              if (!listingId) continue;
-              if (doc && doc.exists) {
-                const refPath = doc.get("refPath") as string | undefined;
-                const userId = doc.get("userId") as string | undefined;
-                results.set(listingId, {
-                  refPath: refPath ?? null,
-                  sellerUid: userId ?? null,
-                });
-              } else {
-                results.set(listingId, { refPath: null, sellerUid: null });
-              }
-            }
-          } catch (e) {
-            console.warn("[SEARCH_BACKFILL] mirror:batch:fail", { chunkSize: chunk.length, err: String(e) });
-            // Fill with nulls for failed chunk
-            for (const id of chunk) {
-              results.set(id, { refPath: null, sellerUid: null });
-            }
-          }
+      // 3) Index the buyer hash so later listing uploads find this search
+      if (parsedSearch) {
+        try {
+          await upsertHashIndexEntry(parsedSearch, searchHashes, { bucket: bucket ?? null, searchId: searchRef.id, features: searchFeatures });
+          console.log("[SEARCH_BACKFILL] index:ok", { path: name });
+        } catch (e) {
+          console.warn("[SEARCH_BACKFILL] index:fail", { path: name, err: String(e) });
         }
-
-        console.log("[SEARCH_BACKFILL] mirror:batch:done", { resolved: results.size });
-        return results;
       }
 
-      // 4) Compare pHashes and collect matches first (then batch resolve mirrors)
-      interface MatchInfo {
-        listingId: string;
-        score: number;
-        sourcePath: string;
+      if (!withinQuota) {
+        console.log("[SEARCH_BACKFILL] skip:quota", { uid, searchId: searchRef.id, max: AppConstants.MAX_ACTIVE_PATTERN_SEARCHES });
+        return;
       }
-      const matches: MatchInfo[] = [];
-      let peeked = 0;
-
-      for (const f of files) {
-        const fpath = f.name || "";
-        // Path: active_listing_patterns/brands/{brandLower}/{listingId}/pattern.jpg
-        const segs = fpath.split("/");
-        if (segs.length < 5) continue;
-        const listingId = segs[3];
-        if (!listingId) continue;
-
-        // download pattern.jpg
-        let lbuf: Buffer | null = null;
-        try {
-          const dl = await f.download();
-          lbuf = dl[0] as Buffer;
-        } catch (e) {
-          console.warn("[SEARCH_BACKFILL] storage:download:fail", { path: fpath, err: String(e) });
-          continue;
-        }
-        if (!lbuf || lbuf.length < 32) continue;
 
-        // compute listing pHash
-        let listingPhash: string;
-        try {
-          listingPhash = await computeHexPHashFromBuffer(lbuf);
-        } catch (e) {
-          console.warn("[SEARCH_BACKFILL] storage:phash:fail", { path: fpath, err: String(e) });
-          continue;
-        }
+      // 4) Match indexed listings through the shared engine (inbox + audit)
+      const threshold = await getBrandThreshold(brandLower);
+      const delivered = await runMatching(
+        {
+          brandLower,
+          threshold,
+          hashes: searchHashes,
+          features: searchFeatures,
+          bucketName: bucket ?? null,
+          imageAccountHash: CF_ACCOUNT_HASH.value() || null,
+          listingId: null,
+          listing: null,
+          uid,
+          searchId: searchRef.id,
+        },
+        SEARCH_SOURCES
+      );
+      const matchCount = delivered.length;
 
-        const dist = hammingHex(searchPhash, listingPhash);
-        if (peeked < 5) {
-          console.log("[SEARCH_BACKFILL] compare", { listingId, path: fpath, dist });
-          peeked++;
-        }
+      console.log("[SEARCH_BACKFILL] done", { uid, brandLower, searchId: searchRef.id, matchCount });
+    } catch (err) {
+      console.error("[onBuyerPatternUpload]", err);
+    }
+  }
+);
 
-        if (dist <= PHASH_THRESHOLD) {
-          const score = 1 - dist / 64;
-          matches.push({ listingId, score, sourcePath: fpath });
-        }
-      }
+// ───────── 5b) Static pattern query uploaded → index its hash ─────────
+export const onPatternQueryUpload = onObjectFinalized(
+  { bucket: "vest-9495e.firebasestorage.app", region: "us-central1", memory: "512MiB", timeoutSeconds: 60 },
+  async (event) => {
+    try {
+      const name = event.data?.name || "";
+      const bucket = event.data?.bucket || undefined;
+      if (!name.startsWith("pattern_queries/")) return;
 
-      // Batch resolve all mirrors at once
-      const matchingListingIds = matches.map((m) => m.listingId);
-      const mirrorResults = await batchResolveMirrors(matchingListingIds);
-
-      // Now write all matches to Firestore
-      const batch = db.batch();
-      const matchCount = matches.length;
-
-      for (const match of matches) {
-        const mirror = mirrorResults.get(match.listingId) || { refPath: null, sellerUid: null };
-
-        // inbox for this buyer
-        const inboxRef = db.collection("users").doc(uid).collection("matchInbox").doc(match.listingId);
-        batch.set(
-          inboxRef,
-          {
-            listingId: match.listingId,
-            sellerUid: mirror.sellerUid,
-            searchId: searchRef.id,
-            brandLower,
-            score: match.score,
-            listingRef: mirror.refPath,
-            createdAt: admin.firestore.FieldValue.serverTimestamp(),
-            seen: false,
-            source: "storage-scan",
-          },
-          { merge: true }
-        );
-
-        // audit by search
-        const auditRef = db
-          .collection("matches_by_search")
-          .doc(`${uid}_${searchRef.id}`)
-          .collection("hits")
-          .doc(match.listingId);
-        batch.set(
-          auditRef,
-          {
-            listingId: match.listingId,
-            brandLower,
-            score: match.score,
-            createdAt: admin.firestore.FieldValue.serverTimestamp(),
-            sourcePath: match.sourcePath,
-            source: "storage-scan",
-          },
-          { merge: true }
-        );
-      }
+      // Path: pattern_queries/{brandLower}/{uid}/{searchId}.jpg
+      const parsed = parsePatternPath(name);
+      if (!parsed) return;
+      console.log("[QUERY_INDEX] trigger", { name, brandLower: parsed.brandLower });
 
-      if (matchCount) {
-        console.log("[SEARCH_BACKFILL] batch:commit:start", { matchCount });
-        await batch.commit();
-        console.log("[SEARCH_BACKFILL] batch:commit:ok", { matchCount });
+      let buf: Buffer;
+      try {
+        [buf] = await bucketFor(bucket).file(name).download();
+      } catch (e) {
+        console.error("[QUERY_INDEX] download:fail", { name, bucket, err: String(e) });
+        return;
       }
-      console.log("[SEARCH_BACKFILL] done", { uid, brandLower, searchId: searchRef.id, matchCount });
+      if (!buf || buf.length < 32) return;
+
+      const hashes = await computeHashSetFromBuffer(buf);
+      const features = await computeSimilarityFeatures(buf);
+      await upsertHashIndexEntry(parsed, hashes, { bucket: bucket ?? null, features });
+      console.log("[QUERY_INDEX] done", { name, phash: hashes.identity });
     } catch (err) {
-      console.error("[onBuyerPatternUpload]", err);
+      console.error("[onPatternQueryUpload]", err);
     }
   }
 );
@@ -1116,7 +890,30 @@ export const reconcileFollowerCounts = onSchedule(
   }
 );
 
-export { onMatchInboxNotify, saveFcmToken } from "./notifications";
+export { onMatchInboxNotify, saveFcmToken, sendMatchDigests, flushDeferredPushes } from "./notifications";
+export { getNotificationSettings, updateNotificationSettings } from "./notificationSettings";
+export {
+  onConversationMessageNotify,
+  onConversationMessageSummary,
+  markConversationRead,
+  getOrCreateConversation,
+  sendConversationMessage,
+} from "./messages";
+export { onBadgeMatchInboxWrite, onBadgeConversationWrite, onBadgeSaleWrite, getBadgeCounts } from "./badges";
+export { submitMatchFeedback, recomputeMatchThresholds } from "./matchFeedback";
+export { onListingStatusChange, onListingDeleted, onListingPatternDeleted } from "./listingLifecycle";
+export {
+  pausePatternSearch,
+  resumePatternSearch,
+  deletePatternSearch,
+  expirePatternSearches,
+  onPatternSearchQuotaSync,
+} from "./patternSearches";
+export { rematchBackfill } from "./rematchBackfill";
+export { hashIndexBackfill } from "./hashIndexBackfill";
+export { visualSearch } from "./visualSearch";
+export { namePattern, followPattern, unfollowPattern, suggestPatternName } from "./namedPatterns";
+export { createListingGroup, dissolveListingGroup } from "./listingGroups";
 export { stripeWebhook } from "./stripeWebhook";
 export { createPaymentIntent } from "./createPaymentIntent";
 export { initPaymentSheet } from "./initPaymentSheet";
@@ -1,8 +1,9 @@
-import { onCall, HttpsError } from "firebase-functions/v2/https";
-import { defineSecret } from "firebase-functions/params";
+import {onCall, HttpsError} from "firebase-functions/v2/https";
+import {defineSecret} from "firebase-functions/params";
 import Stripe from "stripe";
 import * as admin from "firebase-admin";
 import crypto from "crypto";
+import {groupCheckout} from "./matching/groups";
 
 // Generate deterministic idempotency key to prevent duplicate PaymentIntents
 function generateIdempotencyKey(uid: string, listingId: string, amount: number): string {
@@ -37,10 +38,18 @@ export const initPaymentSheet = onCall(
     const stripe = new Stripe(STRIPE_SECRET_KEY.value());
 
     // Validate input
-    const { amount, currency = "usd", shipping, listingId, sellerId } = (req.data ?? {}) as {
+    const {
+      amount,
+      currency = "usd",
+      shipping,
+      listingId,
+      groupId,
+      sellerId,
+    } = (req.data ?? {}) as {
       amount?: number;
       currency?: string;
       listingId?: string;
+      groupId?: string;
       sellerId?: string;
       shipping?: {
         fullName?: string;
@@ -51,7 +60,12 @@ export const initPaymentSheet = onCall(
       };
     };
 
-    if (!Number.isInteger(amount) || (amount as number) <= 0) {
+    // Sibling-set group: buy every set in one order at the server-computed
+    // group price
+    const group = groupId ? await groupCheckout(groupId, uid) : null;
+    const chargeAmount = group ? group.amount : amount;
+
+    if (!Number.isInteger(chargeAmount) || (chargeAmount as number) <= 0) {
       throw new HttpsError("invalid-argument", "amount (in cents) is required and must be a positive integer.");
     }
 
@@ -117,17 +131,23 @@ export const initPaymentSheet = onCall(
     }
 
     // Generate idempotency key to prevent duplicate PaymentIntents on retry
-    const idempotencyKey = generateIdempotencyKey(uid, listingId || "checkout", amount as number);
-
-    // Create PaymentIntent for the provided amount
+    const idempotencyKey = generateIdempotencyKey(
+      uid,
+      groupId || listingId || "checkout",
+      chargeAmount as number
+    );
+
+    // Create PaymentIntent for the provided amount (the group price for group
+    // checkout)
     const piParams: Stripe.PaymentIntentCreateParams = {
-      amount: amount as number,
+      amount: chargeAmount as number,
       currency,
       customer: customerId,
       automatic_payment_methods: { enabled: true },
       metadata: {
         ...(listingId ? { listingId } : {}),
         ...(sellerId ? { sellerId } : {}),
+        ...(group ? group.metadata : {}),
         buyerId, // always include buyer uid
       },
     };
@@ -0,0 +1,169 @@
+// functions/src/listingGroups.ts
+import {onCall, HttpsError} from "firebase-functions/v2/https";
+import * as admin from "firebase-admin";
+import {INACTIVE_LISTING_STATUSES} from "./matching/lifecycle";
+import {
+  ListingGroup,
+  MAX_GROUP_LISTINGS,
+  groupsCollection,
+} from "./matching/groups";
+
+// Ensure Admin SDK is initialized even when this module is imported directly
+if (admin.apps.length === 0) {
+  admin.initializeApp();
+}
+
+const db = admin.firestore();
+
+/**
+ * createListingGroup
+ * Links the caller's sibling-set listings (2–MAX_GROUP_LISTINGS, all active)
+ * into listing_groups/{groupId} and stamps `groupId` on each listing doc and
+ * its all_listings mirror. A listing can only belong to one group.
+ */
+export const createListingGroup = onCall(
+  {region: "us-central1"},
+  async (req) => {
+    if (!req.auth?.uid) {
+      throw new HttpsError("unauthenticated", "Auth required.");
+    }
+    const uid = req.auth.uid;
+
+    const rawIds: unknown[] = Array.isArray(req.data?.listingIds) ?
+      req.data.listingIds :
+      [];
+    const listingIds = Array.from(
+      new Set(
+        rawIds
+          .filter((v): v is string => typeof v === "string" && !!v.trim())
+          .map((v) => v.trim())
+      )
+    );
+    if (listingIds.length < 2 || listingIds.length > MAX_GROUP_LISTINGS) {
+      throw new HttpsError(
+        "invalid-argument",
+        `listingIds must contain 2–${MAX_GROUP_LISTINGS} listings.`
+      );
+    }
+    const title =
+      typeof req.data?.title === "string" && req.data.title.trim() ?
+        req.data.title.trim().slice(0, 120) :
+        null;
+
+    const refs = listingIds.map((id) =>
+      db.collection("users").doc(uid).collection("listings").doc(id)
+    );
+    const groupRef = groupsCollection().doc();
+
+    await db.runTransaction(async (tx) => {
+      const docs = await tx.getAll(...refs);
+      let brandLower: string | null = null;
+      for (const doc of docs) {
+        if (!doc.exists) {
+          throw new HttpsError("not-found", `Listing ${doc.id} not found.`);
+        }
+        const status = String(doc.get("status") ?? "active");
+        if (INACTIVE_LISTING_STATUSES.includes(status)) {
+          throw new HttpsError(
+            "failed-precondition",
+            `Listing ${doc.id} is ${status}.`
+          );
+        }
+        if (doc.get("groupId")) {
+          throw new HttpsError(
+            "already-exists",
+            `Listing ${doc.id} is already in a group.`
+          );
+        }
+        brandLower =
+          brandLower ??
+          (typeof doc.get("brandLower") === "string" ?
+            doc.get("brandLower") :
+            null);
+      }
+
+      const now = admin.firestore.FieldValue.serverTimestamp();
+      tx.set(groupRef, {
+        sellerUid: uid,
+        brandLower,
+        title,
+        listingIds,
+        availableListingIds: listingIds,
+        numberOfSets: listingIds.length,
+        status: "active",
+        createdAt: now,
+        updatedAt: now,
+      });
+      for (const doc of docs) {
+        tx.update(doc.ref, {groupId: groupRef.id});
+        tx.set(
+          db.collection("all_listings").doc(doc.id),
+          {groupId: groupRef.id},
+          {merge: true}
+        );
+      }
+    });
+
+    console.log("[LISTING_GROUP] created", {
+      uid,
+      groupId: groupRef.id,
+      listings: listingIds.length,
+    });
+    return {ok: true, groupId: groupRef.id};
+  }
+);
+
+/**
+ * dissolveListingGroup
+ * Unlinks a group the caller owns (active or broken); listings stay listed
+ * individually and can join a new group.
+ */
+export const dissolveListingGroup = onCall(
+  {region: "us-central1"},
+  async (req) => {
+    if (!req.auth?.uid) {
+      throw new HttpsError("unauthenticated", "Auth required.");
+    }
+    const uid = req.auth.uid;
+    const groupId = String(req.data?.groupId || "").trim();
+    if (!groupId) {
+      throw new HttpsError("failed-precondition", "groupId is required.");
+    }
+
+    const groupRef = groupsCollection().doc(groupId);
+    await db.runTransaction(async (tx) => {
+      const snap = await tx.get(groupRef);
+      const group = snap.data() as ListingGroup | undefined;
+      if (!group || group.sellerUid !== uid) {
+        throw new HttpsError("not-found", "Listing group not found.");
+      }
+      if (group.status !== "active" && group.status !== "broken") {
+        throw new HttpsError(
+          "failed-precondition",
+          `Listing group is ${group.status}.`
+        );
+      }
+
+      const refs = group.listingIds.map((id) =>
+        db.collection("users").doc(uid).collection("listings").doc(id)
+      );
+      const docs = await tx.getAll(...refs);
+      tx.update(groupRef, {
+        status: "dissolved",
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      for (const doc of docs) {
+        if (!doc.exists || doc.get("groupId") !== groupId) continue;
+        tx.update(doc.ref, {groupId: admin.firestore.FieldValue.delete()});
+        tx.set(
+          db.collection("all_listings").doc(doc.id),
+          {groupId: admin.firestore.FieldValue.delete()},
+          {merge: true}
+        );
+      }
+    });
+
+    console.log("[LISTING_GROUP] dissolved", {uid, groupId});
+    return {ok: true};
+  }
+);
@@ -0,0 +1,115 @@
+// functions/src/listingLifecycle.ts
+import {
+  onDocumentDeleted,
+  onDocumentUpdated,
+} from "firebase-functions/v2/firestore";
+import {onObjectDeleted} from "firebase-functions/v2/storage";
+import * as admin from "firebase-admin";
+import {deleteHashIndexEntry, parsePatternPath} from "./matching/hashIndex";
+import {
+  INACTIVE_LISTING_STATUSES,
+  markInboxUnavailable,
+  withdrawListingMatches,
+} from "./matching/lifecycle";
+
+// Ensure Admin SDK is initialized even when this module is imported directly
+if (admin.apps.length === 0) {
+  admin.initializeApp();
+}
+
+const db = admin.firestore();
+
+/**
+ * onListingStatusChange
+ * Fires on users/{uid}/listings/{listingId} updates. When a listing leaves
+ * "active" for sold / canceled / removed (markListingSold in stripeWebhook.ts
+ * or the seller), its matches are withdrawn.
+ */
+export const onListingStatusChange = onDocumentUpdated(
+  {region: "us-central1", document: "users/{uid}/listings/{listingId}"},
+  async (event) => {
+    const listingId = event.params.listingId as string;
+    const before = event.data?.before.data() || {};
+    const after = event.data?.after.data() || {};
+    const prev = String(before["status"] ?? "");
+    const next = String(after["status"] ?? "");
+    if (prev === next || !INACTIVE_LISTING_STATUSES.includes(next)) return;
+
+    console.log("[LISTING_LIFECYCLE] status", {listingId, prev, next});
+    try {
+      await withdrawListingMatches(
+        listingId,
+        next === "sold" ? "sold" : "removed"
+      );
+    } catch (err) {
+      console.error("[onListingStatusChange]", {listingId, err: String(err)});
+    }
+  }
+);
+
+/**
+ * onListingDeleted
+ * Fires when the seller deletes users/{uid}/listings/{listingId}.
+ */
+export const onListingDeleted = onDocumentDeleted(
+  {region: "us-central1", document: "users/{uid}/listings/{listingId}"},
+  async (event) => {
+    const listingId = event.params.listingId as string;
+    console.log("[LISTING_LIFECYCLE] deleted", {listingId});
+    try {
+      await withdrawListingMatches(listingId, "removed");
+    } catch (err) {
+      console.error("[onListingDeleted]", {listingId, err: String(err)});
+    }
+  }
+);
+
+/**
+ * onListingPatternDeleted
+ * Fires when
+ * active_listing_patterns/brands/{brandLower}/{listingId}/pattern.jpg
+ * is deleted (including our own archive move). Overwrites also emit a delete
+ * for the old object, so nothing happens if the path still exists.
+ * The index entry is always dropped; inbox entries are only withdrawn when the
+ * listing itself is gone or no longer active.
+ */
+export const onListingPatternDeleted = onObjectDeleted(
+  {bucket: "vest-9495e.firebasestorage.app", region: "us-central1"},
+  async (event) => {
+    const name = event.data?.name || "";
+    if (!name.startsWith("active_listing_patterns/brands/")) return;
+    const parsed = parsePatternPath(name);
+    if (!parsed?.listingId) return;
+    const listingId = parsed.listingId;
+
+    try {
+      const [exists] = await admin
+        .storage()
+        .bucket(event.data?.bucket)
+        .file(name)
+        .exists();
+      if (exists) {
+        console.log("[LISTING_LIFECYCLE] pattern:overwritten", {name});
+        return;
+      }
+
+      await deleteHashIndexEntry(parsed.brandLower, name);
+
+      const listing = await db.collection("all_listings").doc(listingId).get();
+      const status = listing.exists ? String(listing.get("status") ?? "") : "";
+      const withdrawn =
+        !listing.exists || INACTIVE_LISTING_STATUSES.includes(status);
+      const inbox = withdrawn ?
+        await markInboxUnavailable(listingId, "pattern_removed") :
+        0;
+      console.log("[LISTING_LIFECYCLE] pattern:deleted", {
+        name,
+        listingId,
+        status: status || null,
+        inbox,
+      });
+    } catch (err) {
+      console.error("[onListingPatternDeleted]", {name, err: String(err)});
+    }
+  }
+);
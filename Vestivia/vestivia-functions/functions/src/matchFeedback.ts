@@ -0,0 +1,273 @@
+// functions/src/matchFeedback.ts
+import {onCall, HttpsError} from "firebase-functions/v2/https";
+import {onSchedule} from "firebase-functions/v2/scheduler";
+import * as admin from "firebase-admin";
+import {AppConstants} from "./constants";
+import {
+  BrandThresholdDoc,
+  clampThreshold,
+  thresholdsCollection,
+} from "./matching/thresholds";
+
+// Ensure Admin SDK is initialized even when this module is imported directly
+if (admin.apps.length === 0) {
+  admin.initializeApp();
+}
+
+const db = admin.firestore();
+
+export type MatchFeedbackLabel = "correct" | "wrong_pattern" | "wrong_color";
+const LABELS: MatchFeedbackLabel[] = [
+  "correct",
+  "wrong_pattern",
+  "wrong_color",
+];
+
+/**
+ * submitMatchFeedback
+ * Callable for buyers to label a match in their inbox.
+ * Stores the labelled pair (with the match distances from the audit hit) under:
+ *   match_feedback/{uid}_{listingId}
+ * and mirrors the label onto users/{uid}/matchInbox/{listingId}.feedback.
+ * Re-submitting overwrites the previous label.
+ */
+export const submitMatchFeedback = onCall(
+  {region: "us-central1"},
+  async (req) => {
+    if (!req.auth?.uid) {
+      throw new HttpsError("unauthenticated", "Auth required.");
+    }
+    const uid = req.auth.uid;
+
+    const listingId = String(req.data?.listingId || "").trim();
+    const label = String(req.data?.label || "").trim() as MatchFeedbackLabel;
+    if (!listingId) {
+      throw new HttpsError("failed-precondition", "listingId is required.");
+    }
+    if (!LABELS.includes(label)) {
+      throw new HttpsError(
+        "invalid-argument",
+        `label must be one of ${LABELS.join(", ")}.`
+      );
+    }
+
+    const inboxRef = db
+      .collection("users")
+      .doc(uid)
+      .collection("matchInbox")
+      .doc(listingId);
+    const inboxSnap = await inboxRef.get();
+    if (!inboxSnap.exists) {
+      throw new HttpsError("not-found", "Match not found.");
+    }
+    const inbox = inboxSnap.data() || {};
+    const searchId =
+      typeof inbox["searchId"] === "string" ? inbox["searchId"] : null;
+    const brandLower =
+      typeof inbox["brandLower"] === "string" ? inbox["brandLower"] : "";
+
+    // Distances live on the audit hit (buyer-side backfill first, then
+    // listing-side)
+    const auditRefs: FirebaseFirestore.DocumentReference[] = [];
+    if (searchId) {
+      auditRefs.push(
+        db
+          .collection("matches_by_search")
+          .doc(`${uid}_${searchId}`)
+          .collection("hits")
+          .doc(listingId)
+      );
+    }
+    auditRefs.push(
+      db
+        .collection("matches_by_listing")
+        .doc(listingId)
+        .collection("hits")
+        .doc(uid)
+    );
+    const audits = await db.getAll(...auditRefs);
+    const audit = audits.find((d) => d.exists)?.data() || {};
+    const components =
+      (audit["components"] as Record<string, unknown> | undefined) ?? null;
+    const phashDistance =
+      typeof components?.["phash"] === "number" ? components["phash"] : null;
+
+    const now = admin.firestore.FieldValue.serverTimestamp();
+    const batch = db.batch();
+    batch.set(
+      db.collection("match_feedback").doc(`${uid}_${listingId}`),
+      {
+        uid,
+        listingId,
+        searchId,
+        brandLower,
+        label,
+        score: typeof inbox["score"] === "number" ? inbox["score"] : null,
+        phashDistance,
+        components,
+        matchedTransform: inbox["matchedTransform"] ?? null,
+        updatedAt: now,
+      },
+      {merge: true}
+    );
+    batch.set(inboxRef, {feedback: label, feedbackAt: now}, {merge: true});
+    await batch.commit();
+
+    console.log("[MATCH_FEEDBACK] saved", {
+      uid,
+      listingId,
+      brandLower,
+      label,
+      phashDistance,
+    });
+    return {ok: true};
+  }
+);
+
+export interface BrandFeedbackStats {
+  // pHash distances per label (pairs without a stored distance are only
+  // counted)
+  correct: number[];
+  wrongPattern: number[];
+  counts: Record<MatchFeedbackLabel, number>;
+  total: number;
+}
+
+/**
+ * Largest threshold whose pattern precision over labelled pairs at or below it
+ * meets the target. Colour mistakes are excluded: the pHash gate is grayscale
+ * and colourways are separated by the ensemble score, not the threshold.
+ *
+ * Feedback only exists for distances the current threshold let through, so a
+ * threshold past the largest labelled distance has no evidence of its own: the
+ * search stops RAISE_STEP past it, and every candidate needs
+ * MIN_SAMPLES_AT_THRESHOLD labelled pairs.
+ * @param {BrandFeedbackStats} stats
+ * @return {Object}
+ */
+export function recommendThreshold(
+  stats: BrandFeedbackStats
+): {threshold: number; precision: number} | null {
+  const {
+    TARGET_PRECISION,
+    MIN_THRESHOLD,
+    MAX_THRESHOLD,
+    MIN_SAMPLES_AT_THRESHOLD,
+    RAISE_STEP,
+  } = AppConstants.MATCH_FEEDBACK;
+  const labelled = [...stats.correct, ...stats.wrongPattern];
+  if (!labelled.length) return null;
+  const ceiling = Math.min(
+    MAX_THRESHOLD,
+    labelled.reduce((m, d) => Math.max(m, d), 0) + RAISE_STEP
+  );
+
+  let best: {threshold: number; precision: number} | null = null;
+  for (let t = MIN_THRESHOLD; t <= ceiling; t++) {
+    const good = stats.correct.filter((d) => d <= t).length;
+    const bad = stats.wrongPattern.filter((d) => d <= t).length;
+    if (good + bad < MIN_SAMPLES_AT_THRESHOLD) continue;
+    const precision = good / (good + bad);
+    if (precision >= TARGET_PRECISION) {
+      best = {threshold: t, precision: Math.round(precision * 1000) / 1000};
+    }
+  }
+  return best;
+}
+
+// ───────── Scheduled: per-brand precision & threshold recommendation ─────────
+/**
+ * Daily job that aggregates match_feedback per brand, stores precision stats on
+ * match_thresholds/{brandLower} and a recommended threshold. The recommendation
+ * is applied (written to `threshold`) only for brands with autoApply: true.
+ */
+export const recomputeMatchThresholds = onSchedule(
+  {
+    region: "us-central1",
+    schedule: "30 4 * * *", // Daily at 4:30 AM UTC
+    timeoutSeconds: 300,
+    memory: "512MiB",
+  },
+  async () => {
+    const {MIN_SAMPLES, LOOKBACK_DAYS} = AppConstants.MATCH_FEEDBACK;
+    const since = admin.firestore.Timestamp.fromMillis(
+      Date.now() - LOOKBACK_DAYS * 24 * 60 * 60 * 1000
+    );
+    console.log("[THRESHOLD_TUNE] start", {
+      since: since.toDate().toISOString(),
+    });
+
+    const snap = await db
+      .collection("match_feedback")
+      .where("updatedAt", ">=", since)
+      .get();
+    const byBrand = new Map<string, BrandFeedbackStats>();
+    for (const doc of snap.docs) {
+      const brandLower = doc.get("brandLower");
+      const label = doc.get("label") as MatchFeedbackLabel;
+      if (
+        typeof brandLower !== "string" ||
+        !brandLower ||
+        !LABELS.includes(label)
+      ) {
+        continue;
+      }
+      const stats = byBrand.get(brandLower) ?? {
+        correct: [],
+        wrongPattern: [],
+        counts: {correct: 0, wrong_pattern: 0, wrong_color: 0},
+        total: 0,
+      };
+      byBrand.set(brandLower, stats);
+      stats.total++;
+      stats.counts[label]++;
+
+      const dist = doc.get("phashDistance");
+      if (typeof dist !== "number") continue;
+      if (label === "correct") stats.correct.push(dist);
+      else if (label === "wrong_pattern") stats.wrongPattern.push(dist);
+    }
+
+    let updated = 0;
+    for (const [brandLower, stats] of byBrand) {
+      const ref = thresholdsCollection().doc(brandLower);
+      const current = (await ref.get()).data() as BrandThresholdDoc | undefined;
+      const precision = stats.total ?
+        Math.round((stats.counts.correct / stats.total) * 1000) / 1000 :
+        null;
+      const recommendation =
+        stats.total >= MIN_SAMPLES ? recommendThreshold(stats) : null;
+
+      const update: Record<string, unknown> = {
+        brandLower,
+        samples: stats.total,
+        counts: stats.counts,
+        precision,
+        patternPrecisionAtRecommended: recommendation?.precision ?? null,
+        recommendedThreshold: recommendation ?
+          clampThreshold(recommendation.threshold) :
+          null,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      };
+      if (current?.autoApply === true && recommendation) {
+        update["threshold"] = clampThreshold(recommendation.threshold);
+        update["appliedAt"] = admin.firestore.FieldValue.serverTimestamp();
+      }
+      await ref.set(update, {merge: true});
+      updated++;
+
+      console.log("[THRESHOLD_TUNE] brand", {
+        brandLower,
+        samples: stats.total,
+        precision,
+        recommended: update["recommendedThreshold"],
+        applied: update["threshold"] ?? current?.threshold ?? null,
+      });
+    }
+
+    console.log("[THRESHOLD_TUNE] done", {
+      feedback: snap.size,
+      brands: updated,
+    });
+  }
+);
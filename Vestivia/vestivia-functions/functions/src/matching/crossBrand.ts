@@ -0,0 +1,107 @@
+import {AppConstants} from "../constants";
+import {HashIndexHit, HashIndexKind, findHashesWithin} from "./hashIndex";
+import {candidatesFromListingHits} from "./listings";
+import {candidatesFromQueryHits} from "./patternQueries";
+import {candidatesFromBuyerHits} from "./searchDocs";
+import {getBrandThreshold} from "./thresholds";
+import type {CandidateSource, MatchCandidate, MatchContext} from "./types";
+
+/**
+ * Cross-brand matching.
+ *
+ * - Opt-in: buyer images filed under ANY_BRAND match every brand at the
+ *   ANY_BRAND threshold (match_thresholds/_any, else the global default).
+ * - Fallback: images filed under a different brand (mislabelled by the seller
+ *   or the buyer) match at the stricter CROSS_BRAND_PHASH_THRESHOLD.
+ *
+ * Candidates are flagged crossBrand so the inbox and audit record say so.
+ * Lookups over every brand use the global identity-only index
+ * (pattern_hash_global, see hashIndex.ts), so rotated or zoomed photos are only
+ * matched across brands when the identity hashes are close.
+ */
+const ANY = AppConstants.ANY_BRAND;
+
+/**
+ * Hits from every other brand partition, excluding the uploaded brand and
+ * ANY_BRAND
+ * @param {MatchContext} ctx
+ * @param {HashIndexKind} kind
+ * @return {Promise<Array<HashIndexHit>>}
+ */
+async function otherBrandHits(
+  ctx: MatchContext,
+  kind: HashIndexKind
+): Promise<HashIndexHit[]> {
+  const threshold = Math.min(
+    ctx.threshold,
+    AppConstants.CROSS_BRAND_PHASH_THRESHOLD
+  );
+  const hits = await findHashesWithin(null, ctx.hashes, threshold, kind);
+  return hits.filter(
+    (h) => h.entry.brandLower !== ctx.brandLower && h.entry.brandLower !== ANY
+  );
+}
+
+/**
+ * Listing upload → any-brand searches plus searches filed under other brands.
+ */
+export const crossBrandSearchesSource: CandidateSource = {
+  name: "cross_brand_searches",
+  async find(ctx) {
+    if (!ctx.listingId || ctx.brandLower === ANY) return [];
+    const anyThreshold = await getBrandThreshold(ANY);
+
+    const [anyBuyers, anyQueries, otherBuyers, otherQueries] =
+      await Promise.all([
+        findHashesWithin(ANY, ctx.hashes, anyThreshold, "buyer"),
+        findHashesWithin(ANY, ctx.hashes, anyThreshold, "query"),
+        otherBrandHits(ctx, "buyer"),
+        otherBrandHits(ctx, "query"),
+      ]);
+    console.log("[MATCH] cross_brand:hits", {
+      listingId: ctx.listingId,
+      anyBuyers: anyBuyers.length,
+      anyQueries: anyQueries.length,
+      otherBuyers: otherBuyers.length,
+      otherQueries: otherQueries.length,
+    });
+
+    const out: MatchCandidate[] = [];
+    out.push(
+      ...(await candidatesFromBuyerHits(
+        ctx,
+        [...anyBuyers, ...otherBuyers],
+        "cross_brand_searches"
+      ))
+    );
+    out.push(
+      ...candidatesFromQueryHits(
+        ctx,
+        [...anyQueries, ...otherQueries],
+        "cross_brand_queries"
+      )
+    );
+    return out;
+  },
+};
+
+/**
+ * Search upload → listings of other brands. Any-brand searches use their own
+ * threshold across every brand; branded searches only pick up other brands
+ * at the stricter cross-brand threshold.
+ */
+export const crossBrandListingsSource: CandidateSource = {
+  name: "cross_brand_listings",
+  async find(ctx) {
+    if (!ctx.uid) return [];
+    const hits =
+      ctx.brandLower === ANY ?
+        await findHashesWithin(null, ctx.hashes, ctx.threshold, "listing") :
+        await otherBrandHits(ctx, "listing");
+    console.log("[MATCH] cross_brand_listings:hits", {
+      brandLower: ctx.brandLower,
+      count: hits.length,
+    });
+    return candidatesFromListingHits(ctx, hits, "cross_brand_listings");
+  },
+};
@@ -0,0 +1,138 @@
+import * as admin from "firebase-admin";
+import {AppConstants} from "../constants";
+import {hammingHex} from "../hashing";
+import {findHashesWithin} from "./hashIndex";
+import {INACTIVE_LISTING_STATUSES} from "./lifecycle";
+import {resolveListingContexts} from "./listings";
+import type {ListingContext} from "./types";
+
+/**
+ * Duplicate / stolen-photo detection for listing pattern images.
+ *
+ * A new listing whose pattern photo is a near-exact copy (identity pHash within
+ * DUPLICATE_PHASH_THRESHOLD) of another seller's active listing, in any brand,
+ * is flagged for moderation and the uploading seller is warned:
+ *   moderation_flags/duplicate_image_{listingId}_{matchedListingId}
+ *   users/{sellerUid}/listingWarnings/{listingId}
+ * The listing itself stays live and keeps matching; moderators decide.
+ */
+export interface DuplicateListing {
+  listingId: string;
+  sellerUid: string;
+  brandLower: string;
+  path: string;
+  distance: number;
+}
+
+/**
+ * Other sellers' active listings whose pattern photo is the same photo.
+ * @param {string} listingId
+ * @param {ListingContext} listing
+ * @param {string} phash
+ */
+export async function findCrossSellerDuplicates(
+  listingId: string,
+  listing: ListingContext,
+  phash: string
+): Promise<DuplicateListing[]> {
+  if (!listing.sellerUid) return [];
+  const threshold = AppConstants.DUPLICATE_PHASH_THRESHOLD;
+
+  // Band lookup over every brand, then the plain identity distance – a stolen
+  // photo is re-encoded or resized, not rotated or cropped
+  const hits = (await findHashesWithin(null, phash, threshold, "listing"))
+    .map((h) => ({entry: h.entry, distance: hammingHex(phash, h.entry.phash)}))
+    .filter(
+      (h) =>
+        h.entry.listingId &&
+        h.entry.listingId !== listingId &&
+        h.distance <= threshold
+    );
+  if (!hits.length) return [];
+
+  const contexts = await resolveListingContexts(
+    hits.map((h) => h.entry.listingId as string)
+  );
+  const out: DuplicateListing[] = [];
+  for (const h of hits) {
+    const other = contexts.get(h.entry.listingId as string);
+    if (!other?.sellerUid || other.sellerUid === listing.sellerUid) continue;
+    if (other.status && INACTIVE_LISTING_STATUSES.includes(other.status)) {
+      continue;
+    }
+    out.push({
+      listingId: h.entry.listingId as string,
+      sellerUid: other.sellerUid,
+      brandLower: h.entry.brandLower,
+      path: h.entry.path,
+      distance: h.distance,
+    });
+  }
+  return out;
+}
+
+/**
+ * Write one moderation flag per duplicate pair and the seller-facing warning.
+ * Returns true when the warning is new (so the caller pushes only once).
+ * @param {string} listingId
+ * @param {ListingContext} listing
+ * @param {string} path
+ * @param {string} brandLower
+ * @param {Array<DuplicateListing>} duplicates
+ */
+export async function flagDuplicateListing(
+  listingId: string,
+  listing: ListingContext,
+  path: string,
+  brandLower: string,
+  duplicates: DuplicateListing[]
+): Promise<boolean> {
+  const db = admin.firestore();
+  const now = admin.firestore.FieldValue.serverTimestamp();
+  const batch = db.batch();
+
+  for (const d of duplicates) {
+    batch.set(
+      db
+        .collection("moderation_flags")
+        .doc(`duplicate_image_${listingId}_${d.listingId}`),
+      {
+        type: "duplicate_image",
+        status: "open",
+        listingId,
+        sellerUid: listing.sellerUid,
+        listingRef: listing.refPath,
+        brandLower,
+        path,
+        matchedListingId: d.listingId,
+        matchedSellerUid: d.sellerUid,
+        matchedBrandLower: d.brandLower,
+        matchedPath: d.path,
+        distance: d.distance,
+        createdAt: now,
+      },
+      {merge: true}
+    );
+  }
+
+  const warningRef = db
+    .collection("users")
+    .doc(listing.sellerUid as string)
+    .collection("listingWarnings")
+    .doc(listingId);
+  const isNew = !(await warningRef.get()).exists;
+  batch.set(
+    warningRef,
+    {
+      type: "duplicate_image",
+      listingId,
+      matchedListingIds: duplicates.map((d) => d.listingId),
+      updatedAt: now,
+      ...(isNew ? {createdAt: now, seen: false} : {}),
+    },
+    {merge: true}
+  );
+
+  await batch.commit();
+  return isNew;
+}
@@ -0,0 +1,151 @@
+import * as admin from "firebase-admin";
+import {crossBrandListingsSource, crossBrandSearchesSource} from "./crossBrand";
+import {applySearchFilters} from "./filters";
+import {listingsSource} from "./listings";
+import {patternFollowersSource} from "./patternCatalog";
+import {patternQueriesSource} from "./patternQueries";
+import {searchDocsSource} from "./searchDocs";
+import {auditSink, inboxSink} from "./sinks";
+import type {
+  CandidateSource,
+  MatchCandidate,
+  MatchContext,
+  MatchSink,
+} from "./types";
+
+/**
+ * Single matching code path for both upload triggers.
+ *
+ * Sources produce buyer ↔ listing candidates, candidates rejected by their
+ * search's attribute filters are dropped (filters.ts), the engine keeps the
+ * best candidate per (uid, listingId) – the inbox is keyed by listing – and
+ * every sink writes each delivered candidate into the same batch.
+ * Push notifications follow from inbox creates (onMatchInboxNotify).
+ */
+export const LISTING_SOURCES: CandidateSource[] = [
+  patternQueriesSource,
+  searchDocsSource,
+  crossBrandSearchesSource,
+  patternFollowersSource,
+];
+export const SEARCH_SOURCES: CandidateSource[] = [
+  listingsSource,
+  crossBrandListingsSource,
+];
+export const DEFAULT_SINKS: MatchSink[] = [inboxSink, auditSink];
+
+// Each candidate costs one write per sink; stay well under the 500-op batch
+// limit
+const CANDIDATES_PER_BATCH = 200;
+
+export interface RunMatchingOptions {
+  // Re-matching (rematchBackfill): leave existing inbox entries alone – no
+  // rewrite and no second push – while other sinks still record the hit
+  newInboxOnly?: boolean;
+}
+
+/**
+ * Keys (`uid/listingId`) of candidates that already have a matchInbox entry.
+ * @param {Array<MatchCandidate>} candidates
+ */
+async function existingInboxKeys(
+  candidates: MatchCandidate[]
+): Promise<Set<string>> {
+  const db = admin.firestore();
+  const existing = new Set<string>();
+  for (let i = 0; i < candidates.length; i += 100) {
+    const chunk = candidates.slice(i, i + 100);
+    const docs = await db.getAll(
+      ...chunk.map((c) =>
+        db
+          .collection("users")
+          .doc(c.uid)
+          .collection("matchInbox")
+          .doc(c.listingId)
+      )
+    );
+    docs.forEach((d, j) => {
+      const c = chunk[j];
+      if (c && d.exists) existing.add(`${c.uid}/${c.listingId}`);
+    });
+  }
+  return existing;
+}
+
+/**
+ * Collect candidates from every source, keep the best per user and listing
+ * after search filters, and write them to every sink. A failing source is
+ * logged and skipped.
+ * @param {MatchContext} ctx
+ * @param {Array<CandidateSource>} sources
+ * @param {Array<MatchSink>=} sinks
+ * @param {RunMatchingOptions=} opts
+ * @return {Promise<Array<MatchCandidate>>} every candidate found
+ */
+export async function runMatching(
+  ctx: MatchContext,
+  sources: CandidateSource[],
+  sinks: MatchSink[] = DEFAULT_SINKS,
+  opts: RunMatchingOptions = {}
+): Promise<MatchCandidate[]> {
+  const found: MatchCandidate[] = [];
+  for (const source of sources) {
+    try {
+      const fromSource = await source.find(ctx);
+      found.push(...fromSource);
+      console.log("[MATCH] source:done", {
+        source: source.name,
+        brandLower: ctx.brandLower,
+        candidates: fromSource.length,
+      });
+    } catch (e) {
+      console.error("[MATCH] source:fail", {
+        source: source.name,
+        brandLower: ctx.brandLower,
+        err: String(e),
+      });
+    }
+  }
+
+  const best = new Map<string, MatchCandidate>();
+  for (const c of await applySearchFilters(found)) {
+    const key = `${c.uid}/${c.listingId}`;
+    const prev = best.get(key);
+    if (!prev || c.match.score > prev.match.score) best.set(key, c);
+  }
+
+  const delivered = Array.from(best.values()).sort(
+    (a, b) => b.match.score - a.match.score
+  );
+  const existing = opts.newInboxOnly ?
+    await existingInboxKeys(delivered) :
+    new Set<string>();
+  const db = admin.firestore();
+  // No sinks (visualSearch): score and rank only
+  for (
+    let i = 0;
+    sinks.length && i < delivered.length;
+    i += CANDIDATES_PER_BATCH
+  ) {
+    const batch = db.batch();
+    for (const c of delivered.slice(i, i + CANDIDATES_PER_BATCH)) {
+      const known = existing.has(`${c.uid}/${c.listingId}`);
+      for (const sink of sinks) {
+        if (known && sink === inboxSink) continue;
+        sink.write(batch, c, ctx);
+      }
+    }
+    await batch.commit();
+  }
+
+  console.log("[MATCH] done", {
+    brandLower: ctx.brandLower,
+    listingId: ctx.listingId,
+    uid: ctx.uid,
+    searchId: ctx.searchId,
+    delivered: delivered.length,
+    ...(opts.newInboxOnly ? {newInbox: delivered.length - existing.size} : {}),
+    sinks: sinks.map((s) => s.name),
+  });
+  return delivered;
+}
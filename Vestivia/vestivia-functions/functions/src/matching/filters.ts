@@ -0,0 +1,216 @@
+import * as admin from "firebase-admin";
+import {isSearchLive} from "./searchLifecycle";
+import type {ListingContext, MatchCandidate} from "./types";
+
+/**
+ * Optional attribute filters a buyer can set on a pattern search
+ * (users/{uid}/patternSearches/{searchId}). Values match ListingFields in the
+ * app; an empty list or null means "any". Validated by validPatternSearchWrite
+ * in firestore.rules.
+ */
+export interface SearchFilters {
+  sizes: string[];
+  genders: string[];
+  categories: string[];
+  conditions: string[];
+  maxPrice: number | null;
+}
+
+const strList = (v: unknown): string[] =>
+  Array.isArray(v) ?
+    v
+      .filter((x): x is string => typeof x === "string" && !!x.trim())
+      .map((x) => x.trim()) :
+    [];
+
+/**
+ * Read filters from a search doc. Legacy active_searches items carry a single
+ * `size`.
+ * @param {DocumentData} d
+ * @return {SearchFilters}
+ */
+export function parseSearchFilters(
+  d: FirebaseFirestore.DocumentData | undefined
+): SearchFilters {
+  const data = d || {};
+  const sizes = strList(data["sizes"]);
+  const size = typeof data["size"] === "string" ? data["size"].trim() : "";
+  if (!sizes.length && size) sizes.push(size);
+  const maxPrice =
+    typeof data["maxPrice"] === "number" && data["maxPrice"] > 0 ?
+      data["maxPrice"] :
+      null;
+  return {
+    sizes,
+    genders: strList(data["genders"]),
+    categories: strList(data["categories"]),
+    conditions: strList(data["conditions"]),
+    maxPrice,
+  };
+}
+
+/**
+ * True when any filter is set.
+ * @param {SearchFilters} f
+ * @return {boolean}
+ */
+export function hasFilters(f: SearchFilters): boolean {
+  return !!(
+    f.sizes.length ||
+    f.genders.length ||
+    f.categories.length ||
+    f.conditions.length ||
+    f.maxPrice !== null
+  );
+}
+
+/**
+ * Listing prices are stored as strings ("24", "$24.00").
+ * @param {string|null} v
+ * @return {number|null}
+ */
+export function parsePrice(v: string | null): number | null {
+  if (!v) return null;
+  const n = Number.parseFloat(v.replace(/[^0-9.]/g, ""));
+  return Number.isFinite(n) ? n : null;
+}
+
+const eq = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Whether a listing satisfies a search's filters. A listing whose attribute is
+ * unknown does not satisfy a filter on that attribute.
+ * Returns the first failing filter name, or null when the listing passes.
+ * @param {ListingContext} listing
+ * @param {SearchFilters} f
+ * @return {string|null}
+ */
+export function failedFilter(
+  listing: ListingContext,
+  f: SearchFilters
+): keyof SearchFilters | null {
+  const inList = (value: string | null, list: string[]) =>
+    !list.length || (!!value && list.some((x) => eq(x, value)));
+  if (!inList(listing.size, f.sizes)) return "sizes";
+  if (!inList(listing.gender, f.genders)) return "genders";
+  if (!inList(listing.category, f.categories)) return "categories";
+  if (!inList(listing.condition, f.conditions)) return "conditions";
+  if (f.maxPrice !== null) {
+    const price = parsePrice(listing.price);
+    if (price === null || price > f.maxPrice) return "maxPrice";
+  }
+  return null;
+}
+
+export interface SearchState {
+  filters: SearchFilters;
+  // false when the search is paused, expired or over quota (see
+  // searchLifecycle.ts)
+  live: boolean;
+}
+
+/**
+ * Load filters and live state for every (uid, searchId) behind the candidates:
+ * users/{uid}/patternSearches/{searchId}, falling back to the legacy
+ * active_searches/{uid}/items/{searchId} the app writes for query uploads.
+ * A search with neither doc is treated as live with no filters.
+ * @param {Array<MatchCandidate>} candidates
+ */
+export async function loadSearchStates(
+  candidates: MatchCandidate[]
+): Promise<Map<string, SearchState>> {
+  const db = admin.firestore();
+  const keys = Array.from(
+    new Set(
+      candidates.filter((c) => c.searchId).map((c) => `${c.uid}/${c.searchId}`)
+    )
+  );
+  const out = new Map<string, SearchState>();
+
+  // Firestore getAll supports up to 100 documents per call
+  for (let i = 0; i < keys.length; i += 100) {
+    const chunk = keys.slice(i, i + 100);
+    const split = chunk.map((key) => {
+      const [uid = "", searchId = ""] = key.split("/");
+      return {key, uid, searchId};
+    });
+    const docs = await db.getAll(
+      ...split.map(({uid, searchId}) =>
+        db
+          .collection("users")
+          .doc(uid)
+          .collection("patternSearches")
+          .doc(searchId)
+      )
+    );
+    const missing: typeof split = [];
+    docs.forEach((doc, j) => {
+      const s = split[j];
+      if (!s) return;
+      if (doc.exists) {
+        out.set(s.key, {
+          filters: parseSearchFilters(doc.data()),
+          live: isSearchLive(doc.data()),
+        });
+      } else missing.push(s);
+    });
+    if (missing.length) {
+      const legacy = await db.getAll(
+        ...missing.map(({uid, searchId}) =>
+          db
+            .collection("active_searches")
+            .doc(uid)
+            .collection("items")
+            .doc(searchId)
+        )
+      );
+      legacy.forEach((doc, n) => {
+        const s = missing[n];
+        if (!s) return;
+        out.set(s.key, {
+          filters: parseSearchFilters(doc.exists ? doc.data() : undefined),
+          live: isSearchLive(doc.exists ? doc.data() : {}),
+        });
+      });
+    }
+  }
+  return out;
+}
+
+/**
+ * Drop candidates whose search is no longer live or whose filters reject the
+ * listing.
+ * @param {Array<MatchCandidate>} candidates
+ */
+export async function applySearchFilters(
+  candidates: MatchCandidate[]
+): Promise<MatchCandidate[]> {
+  if (!candidates.length) return candidates;
+  const states = await loadSearchStates(candidates);
+  const kept: MatchCandidate[] = [];
+  let dropped = 0;
+  for (const c of candidates) {
+    const state = c.searchId ? states.get(`${c.uid}/${c.searchId}`) : undefined;
+    const failed =
+      state && !state.live ?
+        "inactive" :
+        state && hasFilters(state.filters) ?
+          failedFilter(c.listing, state.filters) :
+          null;
+    if (failed) {
+      dropped++;
+      if (dropped <= 5) {
+        console.log("[MATCH] filter:drop", {
+          uid: c.uid,
+          searchId: c.searchId,
+          listingId: c.listingId,
+          failed,
+        });
+      }
+      continue;
+    }
+    kept.push(c);
+  }
+  if (dropped) console.log("[MATCH] filter:done", {kept: kept.length, dropped});
+  return kept;
+}
@@ -0,0 +1,177 @@
+import * as admin from "firebase-admin";
+import {HttpsError} from "firebase-functions/v2/https";
+
+/**
+ * Sibling-set listing groups (coordinating outfits listed together from
+ * SiblingSetupView's numberOfSets flow).
+ *
+ * Layout: listing_groups/{groupId}
+ *   sellerUid, brandLower, title
+ *   listingIds           – every member, in listing order
+ *   availableListingIds  – members still active (sold / removed members drop
+ *                          out)
+ *   status               – "active" | "sold" | "dissolved" | "broken"
+ *                          (broken: a member sold or was withdrawn on its own,
+ *                          so the group can no longer be bought as a whole)
+ * Members carry `groupId` on users/{uid}/listings/{id} and all_listings/{id}.
+ */
+export type ListingGroupStatus = "active" | "sold" | "dissolved" | "broken";
+
+export interface ListingGroup {
+  sellerUid: string;
+  brandLower: string | null;
+  title: string | null;
+  listingIds: string[];
+  availableListingIds: string[];
+  status: ListingGroupStatus;
+}
+
+export const MAX_GROUP_LISTINGS = 6;
+
+/**
+ * listing_groups
+ * @return {CollectionReference}
+ */
+export function groupsCollection() {
+  return admin.firestore().collection("listing_groups");
+}
+
+/**
+ * Groups by id (missing, dissolved and broken groups are absent from the map).
+ * @param {Array<string>} groupIds
+ */
+export async function loadGroups(
+  groupIds: string[]
+): Promise<Map<string, ListingGroup>> {
+  const out = new Map<string, ListingGroup>();
+  const ids = Array.from(new Set(groupIds.filter(Boolean)));
+  for (let i = 0; i < ids.length; i += 100) {
+    const chunk = ids.slice(i, i + 100);
+    const docs = await admin
+      .firestore()
+      .getAll(...chunk.map((id) => groupsCollection().doc(id)));
+    docs.forEach((d) => {
+      const g = d.data() as ListingGroup | undefined;
+      if (g && g.status !== "dissolved" && g.status !== "broken") {
+        out.set(d.id, g);
+      }
+    });
+  }
+  return out;
+}
+
+/**
+ * Drop a withdrawn listing from its group's available members; an active group
+ * becomes broken.
+ * @param {string} listingId
+ */
+export async function removeListingFromGroups(
+  listingId: string
+): Promise<number> {
+  const db = admin.firestore();
+  const snap = await groupsCollection()
+    .where("availableListingIds", "array-contains", listingId)
+    .get();
+  for (const doc of snap.docs) {
+    await db.runTransaction(async (tx) => {
+      const fresh = await tx.get(doc.ref);
+      tx.update(doc.ref, {
+        availableListingIds: admin.firestore.FieldValue.arrayRemove(listingId),
+        ...(fresh.get("status") === "active" ? {status: "broken"} : {}),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    });
+  }
+  return snap.size;
+}
+
+/**
+ * Listing price as stored by the app ("$25.00", "25") in cents; null when
+ * unparseable.
+ * @param {*} price
+ * @return {number|null}
+ */
+export function priceToCents(price: unknown): number | null {
+  const n =
+    typeof price === "number" ?
+      price :
+      parseFloat(String(price ?? "").replace(/[^0-9.]/g, ""));
+  return Number.isFinite(n) && n > 0 ? Math.round(n * 100) : null;
+}
+
+export interface GroupCheckout {
+  // Sum of the members' listing prices in cents, computed here rather than
+  // trusted from the client
+  amount: number;
+  // PaymentIntent metadata (listingIds comma-joined; Stripe metadata values are
+  // strings)
+  metadata: Record<string, string>;
+}
+
+/**
+ * Validate a full-group purchase: the group must be active with every member
+ * still available and priced. Returns the amount to charge and what checkout
+ * puts in PaymentIntent metadata.
+ * @param {string} groupId
+ * @param {string|null} buyerUid
+ */
+export async function groupCheckout(
+  groupId: string,
+  buyerUid: string | null
+): Promise<GroupCheckout> {
+  const snap = await groupsCollection().doc(groupId).get();
+  const group = snap.data() as ListingGroup | undefined;
+  if (!group || group.status !== "active") {
+    throw new HttpsError("not-found", "Listing group not found.");
+  }
+  if (buyerUid && group.sellerUid === buyerUid) {
+    throw new HttpsError(
+      "failed-precondition",
+      "You cannot buy your own listings."
+    );
+  }
+  const available = new Set(group.availableListingIds ?? []);
+  if (
+    !group.listingIds.length ||
+    group.listingIds.some((id) => !available.has(id))
+  ) {
+    throw new HttpsError(
+      "failed-precondition",
+      "Some sets in this group are no longer available."
+    );
+  }
+
+  const docs = await admin
+    .firestore()
+    .getAll(
+      ...group.listingIds.map((id) =>
+        admin
+          .firestore()
+          .collection("users")
+          .doc(group.sellerUid)
+          .collection("listings")
+          .doc(id)
+      )
+    );
+  let amount = 0;
+  for (const doc of docs) {
+    const cents = priceToCents(doc.get("listingPrice"));
+    if (!doc.exists || doc.get("status") !== "active" || cents === null) {
+      throw new HttpsError(
+        "failed-precondition",
+        "Some sets in this group are no longer available."
+      );
+    }
+    amount += cents;
+  }
+
+  return {
+    amount,
+    metadata: {
+      groupId,
+      listingIds: group.listingIds.join(","),
+      sellerId: group.sellerUid,
+      groupAmount: String(amount),
+    },
+  };
+}
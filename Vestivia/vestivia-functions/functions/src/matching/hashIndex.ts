@@ -0,0 +1,475 @@
+import * as admin from "firebase-admin";
+import {AppConstants} from "../constants";
+import {HashTransform, PatternHashSet, minHammingOverSets} from "../hashing";
+import type {SimilarityFeatures} from "../similarity";
+
+/**
+ * Persistent pHash index for pattern images.
+ *
+ * Layout: pattern_hash_index/{brandLower}/pattern_hash_entries/{safeId(path)}
+ *         pattern_hash_global/{safeId(path)} – every brand, identity keys only
+ *
+ * Each Storage pattern image is hashed once when it is finalized and the
+ * result is stored here, so matchers compare hashes instead of downloading
+ * every image under a brand prefix on each trigger.
+ *
+ * Entries also carry `bandKeys` (multi-index hashing) so findHashesWithin can
+ * fetch only candidates that share a near-identical band with the probe, and
+ * `hashes` (the transform hash set) so rotated, mirrored or zoomed photos
+ * match. Transform variants are keyed on one side of a buyer ↔ listing pair
+ * only: listing entries store band keys for every variant (the wide photo a
+ * zoomed or rotated buyer photo resembles a crop / rotation of), buyer and
+ * query entries for their identity hash. Every lookup probes with the identity
+ * hash alone, so a transformed pair is found when the buyer or query image is
+ * looked up against listings (search upload, resume, re-match); a listing
+ * upload finds the searches its own photo matches directly.
+ * `dhash` / `colorHist` feed the ensemble score in similarity.ts.
+ *
+ * Cross-brand lookups (mislabelled brands, ANY_BRAND searches, duplicate
+ * photos) go to the global copy, probed with the identity hash only: one small
+ * band lookup over all brands instead of the transform fan-out over every
+ * partition.
+ */
+export type HashIndexKind = "listing" | "buyer" | "query";
+
+export interface HashIndexEntry {
+  path: string;
+  brandLower: string;
+  kind: HashIndexKind;
+  phash: string;
+  algorithmVersion: number;
+  uid: string | null;
+  listingId: string | null;
+  searchId: string | null;
+  hashes?: PatternHashSet;
+  bandKeys?: string[];
+  dhash?: string;
+  colorHist?: number[];
+}
+
+export interface HashIndexHit {
+  entry: HashIndexEntry;
+  distance: number;
+  transform: HashTransform;
+}
+
+export type ParsedPatternPath = Pick<
+  HashIndexEntry,
+  "path" | "brandLower" | "kind" | "uid" | "listingId" | "searchId"
+>;
+
+/**
+ * Brand partition key as the app writes it into Storage paths
+ * (ListingSubmission.slugifyBrand): lowercased, every character other than a
+ * letter, digit or hyphen replaced by "-", runs collapsed, ends trimmed.
+ * Callables that take a brand from the client use this so they read the same
+ * partitions the upload triggers wrote (index, catalog, thresholds).
+ * @param {string} brand
+ * @return {string}
+ */
+export function brandKey(brand: string): string {
+  const lower = brand.trim().toLowerCase();
+  if (lower === AppConstants.ANY_BRAND) return lower;
+  return lower
+    .replace(/[^\p{L}\p{N}-]/gu, "-")
+    .replace(/-+/g, "-")
+    .replace(/^-|-$/g, "");
+}
+
+// Sanitize a GCS path for use as a doc id
+export const safeId = (p: string) => p.replace(/[/.#?[\]]/g, "_");
+
+const IMAGE_EXTS = [".jpg", ".jpeg", ".png", ".webp"];
+
+/**
+ * File name without its extension.
+ * @param {string} file
+ * @return {string}
+ */
+function stripExt(file: string): string {
+  const dot = file.lastIndexOf(".");
+  return dot > 0 ? file.slice(0, dot) : file;
+}
+
+/**
+ * Parse a pattern image path into its index identity. Supported layouts:
+ *   active_listing_patterns/brands/{brandLower}/{listingId}/pattern.jpg
+ *   users_active_patterns/{uid}/{brandLower}/{searchId}.jpg
+ *   pattern_queries/{brandLower}/{uid}/{searchId}.jpg
+ * Returns null for anything else (folders, non-images, unknown prefixes).
+ * @param {string} path
+ * @return {ParsedPatternPath|null}
+ */
+export function parsePatternPath(path: string): ParsedPatternPath | null {
+  if (!path || path.endsWith("/")) return null;
+  const lower = path.toLowerCase();
+  if (!IMAGE_EXTS.some((e) => lower.endsWith(e))) return null;
+
+  const parts = path.split("/");
+
+  if (
+    parts[0] === "active_listing_patterns" &&
+    parts[1] === "brands" &&
+    parts.length >= 5
+  ) {
+    const brandLower = (parts[2] || "").toLowerCase();
+    const listingId = parts[3];
+    if (!brandLower || !listingId) return null;
+    return {
+      path,
+      brandLower,
+      kind: "listing",
+      uid: null,
+      listingId,
+      searchId: null,
+    };
+  }
+
+  if (parts[0] === "users_active_patterns" && parts.length >= 4) {
+    const uid = parts[1];
+    const brandLower = (parts[2] || "").toLowerCase();
+    if (!uid || !brandLower) return null;
+    return {
+      path,
+      brandLower,
+      kind: "buyer",
+      uid,
+      listingId: null,
+      searchId: stripExt(parts[parts.length - 1] || "") || null,
+    };
+  }
+
+  if (parts[0] === "pattern_queries" && parts.length >= 3) {
+    const brandLower = (parts[1] || "").toLowerCase();
+    if (!brandLower) return null;
+    // Manually uploaded queries may sit directly under the brand with no uid
+    // segment
+    const uid = parts.length >= 4 ? parts[2] || null : null;
+    return {
+      path,
+      brandLower,
+      kind: "query",
+      uid,
+      listingId: null,
+      searchId: stripExt(parts[parts.length - 1] || "") || null,
+    };
+  }
+
+  return null;
+}
+
+// ─────────────── Multi-index hashing ───────────────
+const HASH_BITS = 64;
+
+/**
+ * HASH_INDEX_BANDS bands; when 64 does not divide evenly the leading bands get
+ * the extra bit
+ * @return {Array<number>}
+ */
+function bandWidths(): number[] {
+  const bands = AppConstants.HASH_INDEX_BANDS;
+  const base = Math.floor(HASH_BITS / bands);
+  return Array.from(
+    {length: bands},
+    (_, i) => base + (i < HASH_BITS % bands ? 1 : 0)
+  );
+}
+
+/**
+ * Band values of a hex hash, most significant band first.
+ * @param {string} hex
+ * @return {Array<number>}
+ */
+function bandValues(hex: string): number[] {
+  const x = BigInt("0x" + hex.padStart(16, "0"));
+  const values: number[] = [];
+  let shift = HASH_BITS;
+  for (const width of bandWidths()) {
+    shift -= width;
+    values.push(
+      Number((x >> BigInt(shift)) & ((BigInt(1) << BigInt(width)) - BigInt(1)))
+    );
+  }
+  return values;
+}
+
+const bandKey = (band: number, value: number) =>
+  `${band}:${value.toString(16)}`;
+
+/**
+ * Exact band keys stored on an index entry (union over every hash in the set).
+ * @param {Array<string>} hashes
+ * @return {Array<string>}
+ */
+export function bandKeysFor(hashes: string[]): string[] {
+  const keys = new Set<string>();
+  for (const hex of hashes) {
+    bandValues(hex).forEach((v, i) => keys.add(bandKey(i, v)));
+  }
+  return Array.from(keys);
+}
+
+/**
+ * Every value within `radius` bit flips of `value` in a `bits`-wide band.
+ * @param {number} value
+ * @param {number} bits
+ * @param {number} radius
+ * @return {Array<number>}
+ */
+function bandNeighbors(value: number, bits: number, radius: number): number[] {
+  const out: number[] = [];
+  const walk = (v: number, fromBit: number, left: number) => {
+    out.push(v);
+    if (left === 0) return;
+    for (let b = fromBit; b < bits; b++) walk(v ^ (1 << b), b + 1, left - 1);
+  };
+  walk(value, 0, Math.min(radius, bits));
+  return out;
+}
+
+/**
+ * Probe radius per band for `maxDistance`. With D = bands·r + s, a hash within
+ * D differs by at most r bits in one of the first s + 1 bands or by at most r −
+ * 1 in one of the others (otherwise the total would exceed D), so only the
+ * first s + 1 bands need the full radius; -1 means the band is not probed.
+ * @param {number} maxDistance
+ * @return {Array<number>}
+ */
+function bandRadii(maxDistance: number): number[] {
+  const bands = AppConstants.HASH_INDEX_BANDS;
+  const d = Math.max(0, Math.floor(maxDistance));
+  const r = Math.floor(d / bands);
+  const s = d % bands;
+  return Array.from({length: bands}, (_, i) => (i <= s ? r : r - 1));
+}
+
+/**
+ * Band keys to probe so that every hash within `maxDistance` of any of
+ * `hashes` is returned by at least one key (pigeonhole over HASH_INDEX_BANDS
+ * bands).
+ * @param {Array<string>} hashes
+ * @param {number} maxDistance
+ * @return {Array<string>}
+ */
+export function bandProbeKeys(hashes: string[], maxDistance: number): string[] {
+  const widths = bandWidths();
+  const radii = bandRadii(maxDistance);
+  const keys = new Set<string>();
+  for (const hex of hashes) {
+    bandValues(hex).forEach((v, i) => {
+      const radius = radii[i] ?? -1;
+      if (radius < 0) return;
+      for (const n of bandNeighbors(v, widths[i] ?? 0, radius)) {
+        keys.add(bandKey(i, n));
+      }
+    });
+  }
+  return Array.from(keys);
+}
+
+export const hashSetOf = (entry: HashIndexEntry): PatternHashSet => ({
+  ...(entry.hashes ?? {}),
+  identity: entry.phash,
+});
+
+/**
+ * Hashes whose band keys are stored on an entry of `kind`.
+ * @param {HashIndexKind} kind
+ * @param {PatternHashSet} hashes
+ * @return {Array<string>}
+ */
+export function indexedHashes(
+  kind: HashIndexKind,
+  hashes: PatternHashSet
+): string[] {
+  const all = Object.values(hashes).filter((h): h is string => !!h);
+  return kind === "listing" ? all : hashes.identity ? [hashes.identity] : [];
+}
+
+/**
+ * pattern_hash_index/{brandLower}/pattern_hash_entries
+ * @param {string} brandLower
+ * @return {CollectionReference}
+ */
+export function indexCollection(brandLower: string) {
+  return admin
+    .firestore()
+    .collection("pattern_hash_index")
+    .doc(brandLower)
+    .collection("pattern_hash_entries");
+}
+
+/**
+ * pattern_hash_global (every brand, for cross-brand lookups)
+ * @return {CollectionReference}
+ */
+export function globalIndexCollection() {
+  return admin.firestore().collection("pattern_hash_global");
+}
+
+/**
+ * Write the brand and global index entries for a pattern image.
+ * @param {ParsedPatternPath} parsed
+ * @param {PatternHashSet} hashes
+ * @param {Object=} extra
+ */
+export async function upsertHashIndexEntry(
+  parsed: ParsedPatternPath,
+  hashes: PatternHashSet,
+  extra: {
+    bucket?: string | null;
+    searchId?: string | null;
+    features?: SimilarityFeatures | null;
+  } = {}
+): Promise<void> {
+  const phash = hashes.identity;
+  if (!phash) throw new Error(`identity hash missing for ${parsed.path}`);
+  const entry = {
+    ...parsed,
+    searchId: extra.searchId ?? parsed.searchId,
+    phash,
+    hashes,
+    ...(extra.features ?
+      {dhash: extra.features.dhash, colorHist: extra.features.colorHist} :
+      {}),
+    algorithmVersion: AppConstants.HASH_ALGORITHM_VERSION,
+    bucket: extra.bucket ?? null,
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  };
+  const batch = admin.firestore().batch();
+  batch.set(
+    indexCollection(parsed.brandLower).doc(safeId(parsed.path)),
+    {...entry, bandKeys: bandKeysFor(indexedHashes(parsed.kind, hashes))},
+    {merge: true}
+  );
+  batch.set(
+    globalIndexCollection().doc(safeId(parsed.path)),
+    {...entry, bandKeys: bandKeysFor([phash])},
+    {merge: true}
+  );
+  await batch.commit();
+}
+
+/**
+ * Remove the brand and global index entries for a pattern image.
+ * @param {string} brandLower
+ * @param {string} path
+ */
+export async function deleteHashIndexEntry(
+  brandLower: string,
+  path: string
+): Promise<void> {
+  const batch = admin.firestore().batch();
+  batch.delete(indexCollection(brandLower).doc(safeId(path)));
+  batch.delete(globalIndexCollection().doc(safeId(path)));
+  await batch.commit();
+}
+
+/**
+ * Brand index entry for a pattern image, or null.
+ * @param {string} brandLower
+ * @param {string} path
+ * @return {Promise<HashIndexEntry|null>}
+ */
+export async function getHashIndexEntry(
+  brandLower: string,
+  path: string
+): Promise<HashIndexEntry | null> {
+  const snap = await indexCollection(brandLower).doc(safeId(path)).get();
+  if (!snap.exists) return null;
+  const entry = snap.data() as HashIndexEntry;
+  return entry.algorithmVersion === AppConstants.HASH_ALGORITHM_VERSION ?
+    entry :
+    null;
+}
+
+/**
+ * Indexed hashes for a brand within `maxDistance` bits of `probe`, nearest
+ * first. Pass `brandLower: null` to search every brand through
+ * pattern_hash_global
+ * (identity hash only; hits carry their own entry.brandLower).
+ * `probe` may be a single hash or a transform hash set; candidates are fetched
+ * by the identity hash's band keys (array-contains-any, chunked to the
+ * Firestore limit, HASH_INDEX_QUERY_CONCURRENCY chunks at a time), deduplicated
+ * across chunks and then verified with the exact Hamming distance, the minimum
+ * over both sets (see minHammingOverSets). Entries from an older hashing
+ * algorithm are skipped.
+ * @param {string|null} brandLower
+ * @param {string|PatternHashSet} probe
+ * @param {number} maxDistance
+ * @param {HashIndexKind=} kind
+ */
+export async function findHashesWithin(
+  brandLower: string | null,
+  probe: string | PatternHashSet,
+  maxDistance: number,
+  kind?: HashIndexKind
+): Promise<HashIndexHit[]> {
+  const t0 = Date.now();
+  const probeSet: PatternHashSet =
+    typeof probe === "string" ? {identity: probe} : probe;
+  const keys = bandProbeKeys(
+    probeSet.identity ? [probeSet.identity] : [],
+    maxDistance
+  );
+  const chunkSize = AppConstants.FIRESTORE_IN_QUERY_LIMIT;
+
+  const base: FirebaseFirestore.Query =
+    brandLower === null ? globalIndexCollection() : indexCollection(brandLower);
+  let q = base.where(
+    "algorithmVersion",
+    "==",
+    AppConstants.HASH_ALGORITHM_VERSION
+  );
+  if (kind) q = q.where("kind", "==", kind);
+  const chunks: string[][] = [];
+  for (let i = 0; i < keys.length; i += chunkSize) {
+    chunks.push(keys.slice(i, i + chunkSize));
+  }
+
+  const snaps: FirebaseFirestore.QuerySnapshot[] = [];
+  const concurrency = AppConstants.HASH_INDEX_QUERY_CONCURRENCY;
+  for (let i = 0; i < chunks.length; i += concurrency) {
+    const batch = chunks.slice(i, i + concurrency);
+    snaps.push(
+      ...(await Promise.all(
+        batch.map((chunk) =>
+          q.where("bandKeys", "array-contains-any", chunk).get()
+        )
+      ))
+    );
+  }
+
+  // A candidate sharing keys with several chunks comes back once per chunk
+  const candidates = new Map<string, HashIndexEntry>();
+  for (const snap of snaps) {
+    for (const d of snap.docs) {
+      if (!candidates.has(d.ref.path)) {
+        candidates.set(d.ref.path, d.data() as HashIndexEntry);
+      }
+    }
+  }
+
+  const hits: HashIndexHit[] = [];
+  for (const entry of candidates.values()) {
+    if (typeof entry.phash !== "string" || !entry.phash) continue;
+    const {distance, transform} = minHammingOverSets(
+      probeSet,
+      hashSetOf(entry)
+    );
+    if (distance <= maxDistance) hits.push({entry, distance, transform});
+  }
+  hits.sort((a, b) => a.distance - b.distance);
+
+  console.log("[HASH_INDEX] find", {
+    brandLower: brandLower ?? "*",
+    kind: kind ?? "any",
+    maxDistance,
+    probeKeys: keys.length,
+    queries: chunks.length,
+    candidates: candidates.size,
+    hits: hits.length,
+    ms: Date.now() - t0,
+  });
+  return hits;
+}
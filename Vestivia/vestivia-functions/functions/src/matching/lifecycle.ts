@@ -0,0 +1,139 @@
+import * as admin from "firebase-admin";
+import {AppConstants} from "../constants";
+import {removeListingFromGroups} from "./groups";
+import {
+  type HashIndexEntry,
+  deleteHashIndexEntry,
+  globalIndexCollection,
+} from "./hashIndex";
+import {removeListingFromPatterns} from "./patternCatalog";
+
+export type WithdrawReason = "sold" | "removed" | "pattern_removed";
+
+/**
+ * Listing statuses that take a listing out of matching (see ListingStatus in
+ * the app).
+ */
+export const INACTIVE_LISTING_STATUSES = ["sold", "canceled", "removed"];
+
+const ACTIVE_PREFIX = "active_listing_patterns/";
+const ARCHIVE_PREFIX = "archived_listing_patterns/";
+
+/**
+ * Mark every buyer's users/{uid}/matchInbox/{listingId} unavailable.
+ * Entries stay in the inbox (the buyer may have liked or messaged) but the app
+ * can grey them out; `seen` is left untouched.
+ * @param {string} listingId
+ * @param {WithdrawReason} reason
+ */
+export async function markInboxUnavailable(
+  listingId: string,
+  reason: WithdrawReason
+): Promise<number> {
+  const db = admin.firestore();
+  const snap = await db
+    .collectionGroup("matchInbox")
+    .where("listingId", "==", listingId)
+    .get();
+  const docs = snap.docs.filter((d) => d.get("status") !== "unavailable");
+
+  for (let i = 0; i < docs.length; i += AppConstants.FIRESTORE_BATCH_LIMIT) {
+    const batch = db.batch();
+    for (const d of docs.slice(i, i + AppConstants.FIRESTORE_BATCH_LIMIT)) {
+      batch.update(d.ref, {
+        status: "unavailable",
+        unavailableReason: reason,
+        unavailableAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    }
+    await batch.commit();
+  }
+  return docs.length;
+}
+
+/**
+ * Remove the listing's pattern_hash_index entries so no later search matches it
+ * (only listing-kind entries carry a listingId).
+ * Returns the removed entries (their path/bucket identify the Storage objects).
+ * @param {string} listingId
+ */
+export async function removeListingFromIndex(
+  listingId: string
+): Promise<(HashIndexEntry & {bucket?: string | null})[]> {
+  const snap = await globalIndexCollection()
+    .where("listingId", "==", listingId)
+    .get();
+  const entries = snap.docs.map(
+    (d) => d.data() as HashIndexEntry & {bucket?: string | null}
+  );
+  for (const entry of entries) {
+    await deleteHashIndexEntry(entry.brandLower, entry.path);
+  }
+  return entries;
+}
+
+/**
+ * Move a pattern image out of the active prefix:
+ *   active_listing_patterns/... → archived_listing_patterns/...
+ * The archive prefix is ignored by the upload triggers and parsePatternPath.
+ * @param {string} path
+ * @param {string|null=} bucketName
+ */
+export async function archivePatternImage(
+  path: string,
+  bucketName?: string | null
+): Promise<string | null> {
+  if (!path.startsWith(ACTIVE_PREFIX)) return null;
+  const dest = ARCHIVE_PREFIX + path.slice(ACTIVE_PREFIX.length);
+  const file = admin
+    .storage()
+    .bucket(bucketName ?? undefined)
+    .file(path);
+  const [exists] = await file.exists();
+  if (!exists) return null;
+  await file.move(dest);
+  return dest;
+}
+
+/**
+ * Take a listing out of matching: drop it from the hash index, the pattern
+ * catalog and its sibling-set group's available members, archive its pattern
+ * image(s) and mark existing inbox entries unavailable. Idempotent.
+ * @param {string} listingId
+ * @param {WithdrawReason} reason
+ */
+export async function withdrawListingMatches(
+  listingId: string,
+  reason: WithdrawReason
+): Promise<{inbox: number; index: number; archived: number}> {
+  const removed = await removeListingFromIndex(listingId);
+
+  let archived = 0;
+  if (reason !== "pattern_removed") {
+    for (const entry of removed) {
+      try {
+        if (await archivePatternImage(entry.path, entry.bucket)) archived++;
+      } catch (e) {
+        console.warn("[LISTING_LIFECYCLE] archive:fail", {
+          listingId,
+          path: entry.path,
+          err: String(e),
+        });
+      }
+    }
+  }
+
+  const patterns = await removeListingFromPatterns(listingId);
+  const groups = await removeListingFromGroups(listingId);
+  const inbox = await markInboxUnavailable(listingId, reason);
+  console.log("[LISTING_LIFECYCLE] withdrawn", {
+    listingId,
+    reason,
+    inbox,
+    index: removed.length,
+    archived,
+    patterns,
+    groups,
+  });
+  return {inbox, index: removed.length, archived};
+}
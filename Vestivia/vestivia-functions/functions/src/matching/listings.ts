@@ -0,0 +1,293 @@
+import * as admin from "firebase-admin";
+import {AppConstants} from "../constants";
+import {scoreMatch} from "../similarity";
+import {HashIndexHit, findHashesWithin} from "./hashIndex";
+import {loadGroups} from "./groups";
+import {INACTIVE_LISTING_STATUSES} from "./lifecycle";
+import type {
+  CandidateSource,
+  ListingContext,
+  MatchCandidate,
+  MatchContext,
+} from "./types";
+
+export const emptyListingContext = (): ListingContext => ({
+  refPath: null,
+  sellerUid: null,
+  status: null,
+  title: null,
+  price: null,
+  size: null,
+  category: null,
+  gender: null,
+  condition: null,
+  primaryImageId: null,
+  primaryImageUrl: null,
+  groupId: null,
+  groupListingIds: [],
+});
+
+const str = (v: unknown): string | null =>
+  typeof v === "string" && v.trim() ?
+    v.trim() :
+    typeof v === "number" ?
+      String(v) :
+      null;
+
+/**
+ * Public "Thumbnail" variant, same URL the app builds for listing rows
+ * @param {string|null} accountHash
+ * @param {string|null} imageId
+ * @return {string|null}
+ */
+export function primaryImageUrlFor(
+  accountHash: string | null,
+  imageId: string | null
+): string | null {
+  if (!accountHash || !imageId) return null;
+  return `https://imagedelivery.net/${accountHash}/${encodeURIComponent(imageId)}/Thumbnail`;
+}
+
+/**
+ * ListingContext from an all_listings document.
+ * @param {string} listingId
+ * @param {DocumentData} d
+ * @param {string|null} accountHash
+ * @return {ListingContext}
+ */
+function fromPublicListing(
+  listingId: string,
+  d: FirebaseFirestore.DocumentData,
+  accountHash: string | null
+): ListingContext {
+  const sellerUid = str(d["userId"]);
+  const imageIds = Array.isArray(d["imageIds"]) ? d["imageIds"] : [];
+  const primaryImageId = str(d["primaryImageId"]) ?? str(imageIds[0]);
+  const title =
+    [str(d["brand"]), str(d["subcategory"]) ?? str(d["category"])]
+      .filter(Boolean)
+      .join(" ") || null;
+  return {
+    refPath:
+      str(d["path"]) ??
+      (sellerUid ? `users/${sellerUid}/listings/${listingId}` : null),
+    sellerUid,
+    status: str(d["status"]) ?? (d["sold"] === true ? "sold" : null),
+    title,
+    price: str(d["listingPrice"]),
+    size: str(d["size"]),
+    category: str(d["category"]),
+    gender: str(d["gender"]),
+    condition: str(d["condition"]),
+    primaryImageId,
+    primaryImageUrl: primaryImageUrlFor(accountHash, primaryImageId),
+    groupId: str(d["groupId"]),
+    groupListingIds: [],
+  };
+}
+
+/**
+ * Batch resolve listing context for inbox previews.
+ * Reads all_listings/{listingId} first; listings missing there fall back to
+ * the listing_by_id/{listingId} mirror (refPath + seller uid only). Gender is
+ * only on the seller's users/{uid}/listings doc, so that is read via refPath
+ * to fill gender and any field the public doc lacks. Members of a sibling-set
+ * group also get the group's available listing ids.
+ * Unreadable or missing listings resolve to emptyListingContext().
+ * @param {Array<string>} listingIds
+ * @param {string|null=} accountHash
+ */
+export async function resolveListingContexts(
+  listingIds: string[],
+  accountHash: string | null = null
+): Promise<Map<string, ListingContext>> {
+  const db = admin.firestore();
+  const results = new Map<string, ListingContext>();
+  const ids = Array.from(new Set(listingIds));
+  if (!ids.length) return results;
+
+  // Firestore getAll supports up to 100 documents per call
+  for (let i = 0; i < ids.length; i += 100) {
+    const chunk = ids.slice(i, i + 100);
+    try {
+      const publicDocs = await db.getAll(
+        ...chunk.map((id) => db.collection("all_listings").doc(id))
+      );
+      const missing: string[] = [];
+      publicDocs.forEach((doc, j) => {
+        const listingId = chunk[j];
+        if (!listingId) return;
+        if (doc.exists) {
+          results.set(
+            listingId,
+            fromPublicListing(listingId, doc.data() || {}, accountHash)
+          );
+        } else missing.push(listingId);
+      });
+
+      if (missing.length) {
+        const mirrors = await db.getAll(
+          ...missing.map((id) => db.collection("listing_by_id").doc(id))
+        );
+        mirrors.forEach((doc, j) => {
+          const listingId = missing[j];
+          if (!listingId) return;
+          results.set(listingId, {
+            ...emptyListingContext(),
+            refPath: doc.exists ? str(doc.get("refPath")) : null,
+            sellerUid: doc.exists ? str(doc.get("userId")) : null,
+          });
+        });
+      }
+
+      const isDocPath = (p: string | null | undefined): p is string =>
+        !!p && p.split("/").length % 2 === 0;
+      const withRef = chunk.flatMap((id) => {
+        const refPath = results.get(id)?.refPath;
+        return isDocPath(refPath) ? [{id, refPath}] : [];
+      });
+      if (withRef.length) {
+        const sellerDocs = await db.getAll(
+          ...withRef.map(({refPath}) => db.doc(refPath))
+        );
+        sellerDocs.forEach((doc, j) => {
+          const listingId = withRef[j]?.id;
+          const base = listingId ? results.get(listingId) : undefined;
+          if (!listingId || !base || !doc.exists) return;
+          const full = fromPublicListing(
+            listingId,
+            doc.data() || {},
+            accountHash
+          );
+          results.set(listingId, {
+            ...base,
+            sellerUid: base.sellerUid ?? full.sellerUid,
+            status: base.status ?? full.status,
+            title: base.title ?? full.title,
+            price: base.price ?? full.price,
+            size: base.size ?? full.size,
+            category: base.category ?? full.category,
+            gender: base.gender ?? full.gender,
+            condition: base.condition ?? full.condition,
+            primaryImageId: base.primaryImageId ?? full.primaryImageId,
+            primaryImageUrl: base.primaryImageUrl ?? full.primaryImageUrl,
+            groupId: base.groupId ?? full.groupId,
+          });
+        });
+      }
+
+      // Sibling sets: surface the group's available members with each listing
+      const grouped = chunk.flatMap((id) => {
+        const base = results.get(id);
+        return base?.groupId ? [{id, base, groupId: base.groupId}] : [];
+      });
+      if (grouped.length) {
+        const groups = await loadGroups(grouped.map((g) => g.groupId));
+        for (const {id, base, groupId} of grouped) {
+          const group = groups.get(groupId);
+          results.set(
+            id,
+            group ?
+              {...base, groupListingIds: group.availableListingIds ?? []} :
+              {...base, groupId: null}
+          );
+        }
+      }
+    } catch (e) {
+      console.warn("[MATCH] listings:resolve:fail", {
+        chunkSize: chunk.length,
+        err: String(e),
+      });
+      for (const id of chunk) results.set(id, emptyListingContext());
+    }
+  }
+  return results;
+}
+
+/**
+ * Resolve one listing, retrying briefly: the app uploads the pattern image
+ * before it commits the listing docs, so the storage trigger can beat them.
+ * @param {string} listingId
+ * @param {string|null} accountHash
+ * @param {number=} attempts
+ * @param {number=} delayMs
+ */
+export async function resolveListingContextWithRetry(
+  listingId: string,
+  accountHash: string | null,
+  attempts = 3,
+  delayMs = 2000
+): Promise<ListingContext> {
+  for (let i = 0; i < attempts; i++) {
+    const ctx =
+      (await resolveListingContexts([listingId], accountHash)).get(listingId) ??
+      emptyListingContext();
+    if (ctx.sellerUid || i === attempts - 1) return ctx;
+    await new Promise((r) => setTimeout(r, delayMs * (i + 1)));
+  }
+  return emptyListingContext();
+}
+
+/**
+ * Map indexed listing-image hits for the uploaded search to candidates,
+ * resolving each listing's preview context in one batch.
+ * @param {MatchContext} ctx
+ * @param {Array<HashIndexHit>} hits
+ * @param {string} source
+ */
+export async function candidatesFromListingHits(
+  ctx: MatchContext,
+  hits: HashIndexHit[],
+  source: string
+): Promise<MatchCandidate[]> {
+  const {uid, searchId, features} = ctx;
+  if (!uid) return [];
+
+  const listingHits = hits.filter((h) => !!h.entry.listingId);
+  const contexts = await resolveListingContexts(
+    listingHits.map((h) => h.entry.listingId as string),
+    ctx.imageAccountHash
+  );
+
+  const out: MatchCandidate[] = [];
+  for (const hit of listingHits) {
+    const listingId = hit.entry.listingId as string;
+    const listing = contexts.get(listingId) ?? emptyListingContext();
+    // Sold / removed listings are withdrawn from the index, but skip any
+    // stragglers
+    if (listing.status && INACTIVE_LISTING_STATUSES.includes(listing.status)) {
+      continue;
+    }
+    out.push({
+      uid,
+      searchId,
+      listingId,
+      brandLower: hit.entry.brandLower,
+      crossBrand: hit.entry.brandLower !== ctx.brandLower,
+      listing,
+      source,
+      hit,
+      match: scoreMatch(hit.distance, features, hit.entry),
+    });
+  }
+  return out;
+}
+
+/**
+ * Buyer search upload → indexed listing pattern images of the same brand:
+ *   active_listing_patterns/brands/{brandLower}/{listingId}/pattern.jpg
+ */
+export const listingsSource: CandidateSource = {
+  name: "listings",
+  async find(ctx) {
+    if (!ctx.uid || ctx.brandLower === AppConstants.ANY_BRAND) return [];
+    const hits = await findHashesWithin(
+      ctx.brandLower,
+      ctx.hashes,
+      ctx.threshold,
+      "listing"
+    );
+    console.log("[MATCH] listings:hits", {count: hits.length});
+    return candidatesFromListingHits(ctx, hits, "listings");
+  },
+};
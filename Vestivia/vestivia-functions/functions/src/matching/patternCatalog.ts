@@ -0,0 +1,328 @@
+import * as admin from "firebase-admin";
+import {AppConstants} from "../constants";
+import {type PatternHashSet, minHammingOverSets} from "../hashing";
+import {scoreMatch} from "../similarity";
+import {bandKeysFor, bandProbeKeys} from "./hashIndex";
+import type {CandidateSource, ListingContext, MatchCandidate} from "./types";
+
+/**
+ * Canonical named patterns per brand.
+ *
+ * Layout: brands/{brandLower}/patterns/{patternId}
+ *   name / nameLower  – null until a moderator names the cluster (namePattern,
+ *                       e.g. "Bow Print")
+ *   referenceHashes   – identity pHashes of up to MAX_REFERENCE_HASHES members
+ *   bandKeys          – band keys of referenceHashes (lookup, see hashIndex.ts)
+ *   sampleImages      – up to MAX_SAMPLE_IMAGES { listingId, imageId }
+ *   listingCount
+ * Members:   brands/{brandLower}/patterns/{patternId}/members/{listingId} (with
+ * the member's `phash`)
+ * Followers: brands/{brandLower}/patterns/{patternId}/followers/{uid}
+ *
+ * Listing uploads are assigned to the nearest pattern (leader clustering);
+ * followers of a pattern get new members in their inbox
+ * (patternFollowersSource).
+ */
+export interface PatternCatalogEntry {
+  brandLower: string;
+  name: string | null;
+  nameLower: string | null;
+  referenceHashes: string[];
+  bandKeys: string[];
+  sampleImages: {listingId: string; imageId: string}[];
+  listingCount: number;
+}
+
+export interface PatternAssignment {
+  patternId: string;
+  name: string | null;
+  distance: number;
+  created: boolean;
+}
+
+/**
+ * brands/{brandLower}/patterns
+ * @param {string} brandLower
+ * @return {CollectionReference}
+ */
+export function patternsCollection(brandLower: string) {
+  return admin
+    .firestore()
+    .collection("brands")
+    .doc(brandLower)
+    .collection("patterns");
+}
+
+/**
+ * Nearest catalog pattern of a brand within `maxDistance` (any member hash
+ * counts).
+ * @param {string} brandLower
+ * @param {PatternHashSet} hashes
+ * @param {number} maxDistance
+ * @param {boolean=} namedOnly
+ */
+export async function findNearestPattern(
+  brandLower: string,
+  hashes: PatternHashSet,
+  maxDistance: number,
+  namedOnly = false
+): Promise<{id: string; data: PatternCatalogEntry; distance: number} | null> {
+  const keys = bandProbeKeys(
+    Object.values(hashes).filter((h): h is string => !!h),
+    maxDistance
+  );
+  const chunkSize = AppConstants.FIRESTORE_IN_QUERY_LIMIT;
+  const snaps = await Promise.all(
+    Array.from({length: Math.ceil(keys.length / chunkSize)}, (_, i) =>
+      patternsCollection(brandLower)
+        .where(
+          "bandKeys",
+          "array-contains-any",
+          keys.slice(i * chunkSize, (i + 1) * chunkSize)
+        )
+        .get()
+    )
+  );
+
+  let best: {id: string; data: PatternCatalogEntry; distance: number} | null =
+    null;
+  const seen = new Set<string>();
+  for (const snap of snaps) {
+    for (const doc of snap.docs) {
+      if (seen.has(doc.id)) continue;
+      seen.add(doc.id);
+      const data = doc.data() as PatternCatalogEntry;
+      if (namedOnly && !data.name) continue;
+      for (const ref of data.referenceHashes ?? []) {
+        const {distance} = minHammingOverSets(hashes, {identity: ref});
+        if (distance <= maxDistance && (!best || distance < best.distance)) {
+          best = {id: doc.id, data, distance};
+        }
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Remove a listing from whichever pattern it belongs to. referenceHashes (and
+ * bandKeys) are rebuilt from the remaining members so the pattern stops
+ * matching the removed photo. Returns the number of memberships removed.
+ * @param {string} listingId
+ */
+export async function removeListingFromPatterns(
+  listingId: string
+): Promise<number> {
+  const db = admin.firestore();
+  const snap = await db
+    .collectionGroup("members")
+    .where("listingId", "==", listingId)
+    .get();
+  for (const doc of snap.docs) {
+    const patternRef = doc.ref.parent.parent;
+    const batch = db.batch();
+    batch.delete(doc.ref);
+    if (patternRef) {
+      const data = (await patternRef.get()).data() as
+        PatternCatalogEntry | undefined;
+      const referenceHashes = await remainingReferenceHashes(
+        patternRef,
+        doc,
+        data
+      );
+      batch.set(
+        patternRef,
+        {
+          listingCount: admin.firestore.FieldValue.increment(-1),
+          referenceHashes,
+          bandKeys: bandKeysFor(referenceHashes),
+          sampleImages: (data?.sampleImages ?? []).filter(
+            (s) => s.listingId !== listingId
+          ),
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        },
+        {merge: true}
+      );
+    }
+    await batch.commit();
+  }
+  return snap.size;
+}
+
+/**
+ * Reference hashes of a pattern without `removed`: the identity hashes of up to
+ * MAX_REFERENCE_HASHES other members. Members assigned before hashes were
+ * stored on them have none, so with no hashed member left the current list
+ * minus the removed member's hash is kept.
+ * @param {DocumentReference} patternRef
+ * @param {QueryDocumentSnapshot} removed
+ * @param {PatternCatalogEntry} data
+ */
+async function remainingReferenceHashes(
+  patternRef: FirebaseFirestore.DocumentReference,
+  removed: FirebaseFirestore.QueryDocumentSnapshot,
+  data: PatternCatalogEntry | undefined
+): Promise<string[]> {
+  const {MAX_REFERENCE_HASHES} = AppConstants.PATTERN_CATALOG;
+  const members = await patternRef
+    .collection("members")
+    .where("phash", "!=", null)
+    .limit(MAX_REFERENCE_HASHES + 1)
+    .get();
+  const rebuilt = Array.from(
+    new Set(
+      members.docs
+        .filter((m) => m.id !== removed.id)
+        .map((m) => m.get("phash"))
+        .filter((h): h is string => typeof h === "string" && !!h)
+    )
+  ).slice(0, MAX_REFERENCE_HASHES);
+  if (rebuilt.length) return rebuilt;
+  const removedHash = removed.get("phash");
+  return (data?.referenceHashes ?? []).filter((h) => h !== removedHash);
+}
+
+/**
+ * Assign a listing to the nearest pattern of its brand, or seed a new unnamed
+ * pattern. Re-uploads move the listing (old membership is removed first).
+ * @param {string} brandLower
+ * @param {string} listingId
+ * @param {ListingContext} listing
+ * @param {PatternHashSet} hashes
+ */
+export async function assignListingToPattern(
+  brandLower: string,
+  listingId: string,
+  listing: ListingContext,
+  hashes: PatternHashSet
+): Promise<PatternAssignment | null> {
+  const identity = hashes.identity;
+  if (!identity || brandLower === AppConstants.ANY_BRAND) return null;
+  const {CLUSTER_THRESHOLD, MAX_REFERENCE_HASHES, MAX_SAMPLE_IMAGES} =
+    AppConstants.PATTERN_CATALOG;
+  const now = admin.firestore.FieldValue.serverTimestamp();
+
+  await removeListingFromPatterns(listingId);
+  const nearest = await findNearestPattern(
+    brandLower,
+    hashes,
+    CLUSTER_THRESHOLD
+  );
+
+  const patternRef = nearest ?
+    patternsCollection(brandLower).doc(nearest.id) :
+    patternsCollection(brandLower).doc();
+  const prev = nearest?.data;
+  const referenceHashes = Array.from(
+    new Set([...(prev?.referenceHashes ?? []), identity])
+  ).slice(0, MAX_REFERENCE_HASHES);
+  const sampleImages = [...(prev?.sampleImages ?? [])];
+  if (listing.primaryImageId && sampleImages.length < MAX_SAMPLE_IMAGES) {
+    sampleImages.push({listingId, imageId: listing.primaryImageId});
+  }
+
+  const batch = admin.firestore().batch();
+  batch.set(
+    patternRef,
+    {
+      brandLower,
+      referenceHashes,
+      bandKeys: bandKeysFor(referenceHashes),
+      sampleImages,
+      listingCount: admin.firestore.FieldValue.increment(1),
+      updatedAt: now,
+      ...(nearest ? {} : {name: null, nameLower: null, createdAt: now}),
+    },
+    {merge: true}
+  );
+  batch.set(patternRef.collection("members").doc(listingId), {
+    listingId,
+    sellerUid: listing.sellerUid,
+    listingRef: listing.refPath,
+    title: listing.title,
+    price: listing.price,
+    size: listing.size,
+    primaryImageId: listing.primaryImageId,
+    primaryImageUrl: listing.primaryImageUrl,
+    // Identity hash, so referenceHashes can be rebuilt when members leave
+    phash: identity,
+    distance: nearest?.distance ?? 0,
+    assignedAt: now,
+  });
+  await batch.commit();
+
+  return {
+    patternId: patternRef.id,
+    name: prev?.name ?? null,
+    distance: nearest?.distance ?? 0,
+    created: !nearest,
+  };
+}
+
+/**
+ * Listing upload → followers of the pattern the listing was just assigned to
+ * (assignListingToPattern runs before matching). Followers get the listing in
+ * their inbox like any other match; score comes from the distance to the
+ * pattern.
+ */
+export const patternFollowersSource: CandidateSource = {
+  name: "pattern_followers",
+  async find(ctx) {
+    if (!ctx.listingId || !ctx.listing) return [];
+    const db = admin.firestore();
+    const member = (
+      await db
+        .collectionGroup("members")
+        .where("listingId", "==", ctx.listingId)
+        .limit(1)
+        .get()
+    ).docs[0];
+    const patternRef = member?.ref.parent.parent;
+    if (!member || !patternRef) return [];
+
+    const [pattern, followers] = await Promise.all([
+      patternRef.get(),
+      patternRef.collection("followers").get(),
+    ]);
+    const data = pattern.data() as PatternCatalogEntry | undefined;
+    if (!data?.name || followers.empty) return [];
+
+    const distance =
+      typeof member.get("distance") === "number" ? member.get("distance") : 0;
+    const listing = ctx.listing;
+    const out: MatchCandidate[] = [];
+    for (const f of followers.docs) {
+      if (f.id === listing.sellerUid) continue;
+      out.push({
+        uid: f.id,
+        searchId: null,
+        listingId: ctx.listingId,
+        brandLower: ctx.brandLower,
+        crossBrand: false,
+        listing,
+        source: "pattern_followers",
+        hit: {
+          entry: {
+            path: patternRef.path,
+            brandLower: ctx.brandLower,
+            kind: "listing",
+            phash: data.referenceHashes[0] ?? "",
+            algorithmVersion: AppConstants.HASH_ALGORITHM_VERSION,
+            uid: null,
+            listingId: ctx.listingId,
+            searchId: null,
+          },
+          distance,
+          transform: "identity",
+        },
+        match: scoreMatch(distance),
+      });
+    }
+    console.log("[MATCH] pattern_followers", {
+      listingId: ctx.listingId,
+      patternId: patternRef.id,
+      followers: out.length,
+    });
+    return out;
+  },
+};
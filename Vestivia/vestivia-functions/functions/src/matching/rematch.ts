@@ -0,0 +1,384 @@
+import * as admin from "firebase-admin";
+import {AppConstants} from "../constants";
+import {computeHashSetFromBuffer} from "../hashing";
+import {computeSimilarityFeatures} from "../similarity";
+import {LISTING_SOURCES, SEARCH_SOURCES, runMatching} from "./engine";
+import {
+  type HashIndexEntry,
+  deleteHashIndexEntry,
+  getHashIndexEntry,
+  hashSetOf,
+  indexCollection,
+  upsertHashIndexEntry,
+} from "./hashIndex";
+import {INACTIVE_LISTING_STATUSES} from "./lifecycle";
+import {resolveListingContexts} from "./listings";
+import {patternFollowersSource} from "./patternCatalog";
+import {getBrandThreshold} from "./thresholds";
+
+/**
+ * Re-match backfill jobs.
+ *
+ * Layout: rematch_jobs/{jobId}
+ *   status       – "pending" | "running" | "done" | "failed"
+ *   reason       – why the job exists ("algorithm" | "threshold" | "initial" |
+ *                  "manual")
+ *   brands       – brand partitions to process, in order
+ *   brandIndex / phase / cursor – checkpoint; a run resumes exactly here
+ *   fingerprint  – algorithm version + per-brand thresholds the job ran with
+ *   stats        – index entries re-hashed, searches / listings re-matched,
+ *                  hits written
+ *
+ * Per brand the job first re-hashes index entries from an older
+ * HASH_ALGORITHM_VERSION ("reindex"), then re-runs every active pattern search
+ * against the brand's listings ("match", SEARCH_SOURCES) and every indexed
+ * listing against pattern queries, buyer images and cross-brand searches
+ * ("listings", LISTING_SOURCES) through the shared engine. Both use
+ * newInboxOnly, so only pairs without an inbox entry create one (and push).
+ * Pattern followers are left out: their matches come from catalog membership,
+ * which a threshold or algorithm change does not touch.
+ * A manual job is a doc created with { status: "pending", createdAt: <now> }
+ * (optionally with `brands`); the scheduler picks it up on its next run.
+ */
+export type RematchReason = "algorithm" | "threshold" | "initial" | "manual";
+export type RematchPhase = "reindex" | "match" | "listings";
+
+export interface RematchFingerprint {
+  algorithmVersion: number;
+  thresholds: Record<string, number>;
+}
+
+export interface RematchJob {
+  status: "pending" | "running" | "done" | "failed";
+  reason: RematchReason;
+  brands: string[];
+  brandIndex: number;
+  phase: RematchPhase;
+  cursor: string | null;
+  fingerprint: RematchFingerprint;
+  stats: {
+    reindexed: number;
+    searches: number;
+    listings: number;
+    delivered: number;
+  };
+}
+
+// Index entries re-hashed / searches or listings re-matched between checkpoints
+const REINDEX_CHUNK = 25;
+const MATCH_CHUNK = 20;
+
+const REMATCH_LISTING_SOURCES = LISTING_SOURCES.filter(
+  (s) => s !== patternFollowersSource
+);
+
+/**
+ * rematch_jobs
+ * @return {CollectionReference}
+ */
+export function jobsCollection() {
+  return admin.firestore().collection("rematch_jobs");
+}
+
+/** Brand partitions of pattern_hash_index (including ANY_BRAND). */
+export async function indexedBrands(): Promise<string[]> {
+  const refs = await admin
+    .firestore()
+    .collection("pattern_hash_index")
+    .listDocuments();
+  return refs.map((r) => r.id).sort();
+}
+
+/**
+ * Algorithm version and per-brand thresholds the index is matched with.
+ * @param {Array<string>} brands
+ * @return {Promise<RematchFingerprint>}
+ */
+export async function currentFingerprint(
+  brands: string[]
+): Promise<RematchFingerprint> {
+  const thresholds: Record<string, number> = {};
+  for (const b of brands) thresholds[b] = await getBrandThreshold(b);
+  return {algorithmVersion: AppConstants.HASH_ALGORITHM_VERSION, thresholds};
+}
+
+/**
+ * Brands that need re-matching compared with what was last re-matched
+ * (rematch_state/current, null before the first job): all of them
+ * after an algorithm change (or on the first run), otherwise those whose
+ * threshold was raised – a lower threshold cannot produce new matches.
+ * @param {Array<string>} brands
+ * @param {RematchFingerprint} now
+ * @param {RematchFingerprint|null} last
+ * @return {Object}
+ */
+export function changedBrands(
+  brands: string[],
+  now: RematchFingerprint,
+  last: RematchFingerprint | null
+): {reason: RematchReason; brands: string[]} | null {
+  if (!last) return {reason: "initial", brands};
+  if (last.algorithmVersion !== now.algorithmVersion) {
+    return {reason: "algorithm", brands};
+  }
+  const raised = brands.filter((b) => {
+    const before = last.thresholds[b];
+    const after = now.thresholds[b];
+    return before !== undefined && after !== undefined && after > before;
+  });
+  return raised.length ? {reason: "threshold", brands: raised} : null;
+}
+
+/**
+ * A pending job that starts at the first brand.
+ * @param {RematchReason} reason
+ * @param {Array<string>} brands
+ * @param {RematchFingerprint} fingerprint
+ * @return {RematchJob}
+ */
+export function newJob(
+  reason: RematchReason,
+  brands: string[],
+  fingerprint: RematchFingerprint
+): RematchJob {
+  return {
+    status: "pending",
+    reason,
+    brands,
+    brandIndex: 0,
+    phase: "reindex",
+    cursor: null,
+    fingerprint,
+    stats: {reindexed: 0, searches: 0, listings: 0, delivered: 0},
+  };
+}
+
+/**
+ * Re-hash up to REINDEX_CHUNK entries of `brandLower` stamped with an older
+ * algorithm version. Entries whose image is gone are dropped. Returns the
+ * number processed; 0 means the brand is done.
+ * @param {string} brandLower
+ */
+async function reindexChunk(brandLower: string): Promise<number> {
+  const snap = await indexCollection(brandLower)
+    .where("algorithmVersion", "<", AppConstants.HASH_ALGORITHM_VERSION)
+    .limit(REINDEX_CHUNK)
+    .get();
+
+  for (const doc of snap.docs) {
+    const entry = doc.data() as HashIndexEntry & {bucket?: string | null};
+    try {
+      const [buf] = await admin
+        .storage()
+        .bucket(entry.bucket ?? undefined)
+        .file(entry.path)
+        .download();
+      const hashes = await computeHashSetFromBuffer(buf);
+      const features = await computeSimilarityFeatures(buf);
+      const {path, kind, uid, listingId, searchId} = entry;
+      await upsertHashIndexEntry(
+        {path, brandLower, kind, uid, listingId, searchId},
+        hashes,
+        {bucket: entry.bucket ?? null, features}
+      );
+    } catch (e) {
+      // Missing or undecodable image: the entry can never match again
+      console.warn("[REMATCH] reindex:drop", {
+        brandLower,
+        path: entry.path,
+        err: String(e),
+      });
+      await deleteHashIndexEntry(brandLower, entry.path);
+    }
+  }
+  return snap.size;
+}
+
+/**
+ * Re-match up to MATCH_CHUNK active searches of `brandLower` after `cursor`
+ * (a patternSearches document path). Returns the next cursor, or null when
+ * the brand is done.
+ * @param {string} brandLower
+ * @param {string|null} cursor
+ * @param {string|null} imageAccountHash
+ * @param {Object} stats
+ */
+async function matchChunk(
+  brandLower: string,
+  cursor: string | null,
+  imageAccountHash: string | null,
+  stats: RematchJob["stats"]
+): Promise<string | null> {
+  let q = admin
+    .firestore()
+    .collectionGroup("patternSearches")
+    .where("brandLower", "==", brandLower)
+    .where("isActive", "==", true)
+    .orderBy(admin.firestore.FieldPath.documentId())
+    .limit(MATCH_CHUNK);
+  if (cursor) q = q.startAfter(cursor);
+  const snap = await q.get();
+
+  const threshold = await getBrandThreshold(brandLower);
+  for (const doc of snap.docs) {
+    const uid = doc.ref.parent.parent?.id;
+    const imagePath = doc.get("imagePath");
+    if (!uid || typeof imagePath !== "string") continue;
+
+    const entry = await getHashIndexEntry(brandLower, imagePath);
+    if (!entry) {
+      console.warn("[REMATCH] match:skip – not indexed", {
+        path: doc.ref.path,
+        imagePath,
+      });
+      continue;
+    }
+    const delivered = await runMatching(
+      {
+        brandLower,
+        threshold,
+        hashes: hashSetOf(entry),
+        features:
+          entry.dhash && entry.colorHist ?
+            {dhash: entry.dhash, colorHist: entry.colorHist} :
+            null,
+        bucketName:
+          (entry as HashIndexEntry & {bucket?: string | null}).bucket ?? null,
+        imageAccountHash,
+        listingId: null,
+        listing: null,
+        uid,
+        searchId: doc.id,
+      },
+      SEARCH_SOURCES,
+      undefined,
+      {newInboxOnly: true}
+    );
+    stats.searches++;
+    stats.delivered += delivered.length;
+  }
+
+  const last = snap.docs[snap.docs.length - 1];
+  return snap.size < MATCH_CHUNK || !last ? null : last.ref.path;
+}
+
+/**
+ * Re-match up to MATCH_CHUNK listing entries of `brandLower` after `cursor`
+ * (an index entry id) against searches and queries. Inactive listings are
+ * skipped. Returns the next cursor, or null when the brand is done.
+ * @param {string} brandLower
+ * @param {string|null} cursor
+ * @param {string|null} imageAccountHash
+ * @param {Object} stats
+ */
+async function listingChunk(
+  brandLower: string,
+  cursor: string | null,
+  imageAccountHash: string | null,
+  stats: RematchJob["stats"]
+): Promise<string | null> {
+  let q = indexCollection(brandLower)
+    .where("kind", "==", "listing")
+    .orderBy(admin.firestore.FieldPath.documentId())
+    .limit(MATCH_CHUNK);
+  if (cursor) q = q.startAfter(cursor);
+  const snap = await q.get();
+
+  const threshold = await getBrandThreshold(brandLower);
+  const entries = snap.docs.map(
+    (d) => d.data() as HashIndexEntry & {bucket?: string | null}
+  );
+  const listings = await resolveListingContexts(
+    entries.map((e) => e.listingId).filter((id): id is string => !!id),
+    imageAccountHash
+  );
+  for (const entry of entries) {
+    const listing = entry.listingId ? listings.get(entry.listingId) : undefined;
+    if (
+      !entry.listingId ||
+      !listing ||
+      entry.algorithmVersion !== AppConstants.HASH_ALGORITHM_VERSION
+    ) {
+      continue;
+    }
+    if (listing.status && INACTIVE_LISTING_STATUSES.includes(listing.status)) {
+      continue;
+    }
+
+    const delivered = await runMatching(
+      {
+        brandLower,
+        threshold,
+        hashes: hashSetOf(entry),
+        features:
+          entry.dhash && entry.colorHist ?
+            {dhash: entry.dhash, colorHist: entry.colorHist} :
+            null,
+        bucketName: entry.bucket ?? null,
+        imageAccountHash,
+        listingId: entry.listingId,
+        listing,
+        uid: null,
+        searchId: null,
+      },
+      REMATCH_LISTING_SOURCES,
+      undefined,
+      {newInboxOnly: true}
+    );
+    stats.listings++;
+    stats.delivered += delivered.length;
+  }
+
+  const last = snap.docs[snap.docs.length - 1];
+  return snap.size < MATCH_CHUNK || !last ? null : last.id;
+}
+
+/**
+ * Advance a job by one chunk and return its new checkpoint.
+ * Phases per brand: reindex → match → listings → next brand; status "done"
+ * after the last brand.
+ * @param {RematchJob} job
+ * @param {string|null} imageAccountHash
+ */
+export async function advanceJob(
+  job: RematchJob,
+  imageAccountHash: string | null
+): Promise<RematchJob> {
+  const next: RematchJob = {...job, stats: {...job.stats}, status: "running"};
+  const brandLower = job.brands[job.brandIndex];
+  if (brandLower === undefined) return {...next, status: "done"};
+
+  if (job.phase === "reindex") {
+    const n = await reindexChunk(brandLower);
+    next.stats.reindexed += n;
+    if (n < REINDEX_CHUNK) {
+      next.phase = "match";
+      next.cursor = null;
+    }
+    return next;
+  }
+
+  if (job.phase === "match") {
+    next.cursor = await matchChunk(
+      brandLower,
+      job.cursor,
+      imageAccountHash,
+      next.stats
+    );
+    if (next.cursor === null) next.phase = "listings";
+    return next;
+  }
+
+  next.cursor = await listingChunk(
+    brandLower,
+    job.cursor,
+    imageAccountHash,
+    next.stats
+  );
+  if (next.cursor === null) {
+    next.brandIndex++;
+    next.phase = "reindex";
+    if (next.brandIndex >= job.brands.length) next.status = "done";
+  }
+  return next;
+}
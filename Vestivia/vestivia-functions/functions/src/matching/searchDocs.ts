@@ -1,74 +1,94 @@
 import * as admin from "firebase-admin";
-import { hammingHex } from "../hashing";
-import type { MatchContext } from "./types";
+import {scoreMatch} from "../similarity";
+import {HashIndexHit, findHashesWithin} from "./hashIndex";
+import {emptyListingContext} from "./listings";
+import type {CandidateSource, MatchCandidate, MatchContext} from "./types";
 
-const db = admin.firestore();
-const scoreFor = (dist: number) => 1 - dist / 64;
+/**
+ * Map indexed buyer-image hits for the uploaded listing to their searches,
+ * keeping those whose users/{uid}/patternSearches/{searchId} is active and
+ * filed under the brand the image was indexed under.
+ * @param {MatchContext} ctx
+ * @param {Array<HashIndexHit>} hits
+ * @param {string} source
+ */
+export async function candidatesFromBuyerHits(
+  ctx: MatchContext,
+  hits: HashIndexHit[],
+  source: string
+): Promise<MatchCandidate[]> {
+  const {brandLower, listingId, features} = ctx;
+  if (!listingId) return [];
+  const db = admin.firestore();
 
-export async function matchAgainstSearchDocs(ctx: MatchContext): Promise<number> {
-  const { brandLower, listingId, listingPhash, sellerUid, listingRefPath, bucketName, PHASH_THRESHOLD } = ctx;
-
-  console.time("[LISTING_MATCH] q:patternSearches");
-  const snap = await db.collectionGroup("patternSearches")
-    .where("brandLower", "==", brandLower)
-    .where("isActive", "==", true)
-    .get();
-  console.timeEnd("[LISTING_MATCH] q:patternSearches");
-  console.log("[LISTING_MATCH] buyers.count", { count: snap.size });
-
-  if (snap.empty) return 0;
-
-  const batch = db.batch();
-  let count = 0;
-
-  for (const doc of snap.docs) {
-    const data = doc.data();
-    const uid = doc.ref.parent.parent?.id;
-    if (!uid) continue;
-
-    let buyerPhash: string | undefined = data["phash"] as string | undefined;
-
-    if (!buyerPhash) {
-      const imagePath = data["imagePath"] as string | undefined;
-      if (!imagePath) continue;
-      try {
-        const [buf] = await admin.storage().bucket(bucketName).file(imagePath).download();
-        const { computeHexPHashFromBuffer } = await import("../hashing");
-        buyerPhash = await computeHexPHashFromBuffer(buf);
-      } catch (e) {
-        console.warn("[LISTING_MATCH] buyer image download/hash failed", { imagePath, err: String(e) });
-        continue;
-      }
+  const hitBySearch = new Map<
+    string,
+    {ref: FirebaseFirestore.DocumentReference; hit: HashIndexHit}
+  >();
+  for (const hit of hits) {
+    const {entry} = hit;
+    if (!entry.uid || !entry.searchId) continue;
+    const ref = db
+      .collection("users")
+      .doc(entry.uid)
+      .collection("patternSearches")
+      .doc(entry.searchId);
+    const prev = hitBySearch.get(ref.path);
+    if (!prev || hit.distance < prev.hit.distance) {
+      hitBySearch.set(ref.path, {ref, hit});
     }
+  }
+  console.log("[MATCH] patternSearches:hits", {
+    source,
+    images: hits.length,
+    searches: hitBySearch.size,
+  });
+  if (!hitBySearch.size) return [];
 
-    const dist = hammingHex(listingPhash, buyerPhash);
-    if (dist <= PHASH_THRESHOLD) {
-      const score = scoreFor(dist);
-      count++;
-
-      const inboxRef = db.collection("users").doc(uid).collection("matchInbox").doc(listingId);
-      batch.set(inboxRef, {
-        listingId,
-        searchId: doc.id,
-        brandLower,
-        score,
-        listingRef: listingRefPath ?? null,
-        sellerUid: sellerUid ?? null,
-        createdAt: admin.firestore.FieldValue.serverTimestamp(),
-        seen: false,
-      }, { merge: true });
-
-      const auditRef = db.collection("matches_by_listing").doc(listingId).collection("hits").doc(uid);
-      batch.set(auditRef, {
+  const candidates = Array.from(hitBySearch.values());
+  const out: MatchCandidate[] = [];
+  // Firestore getAll supports up to 100 documents per call
+  for (let i = 0; i < candidates.length; i += 100) {
+    const chunk = candidates.slice(i, i + 100);
+    const docs = await db.getAll(...chunk.map((c) => c.ref));
+    docs.forEach((doc, j) => {
+      const candidate = chunk[j];
+      if (!candidate || !doc.exists || doc.get("isActive") !== true) return;
+      const {hit} = candidate;
+      if (doc.get("brandLower") !== hit.entry.brandLower) return;
+      const uid = doc.ref.parent.parent?.id; // users/{uid}/patternSearches
+      if (!uid) return;
+      out.push({
         uid,
         searchId: doc.id,
+        listingId,
         brandLower,
-        score,
-        createdAt: admin.firestore.FieldValue.serverTimestamp(),
-      }, { merge: true });
-    }
+        crossBrand: hit.entry.brandLower !== brandLower,
+        listing: ctx.listing ?? emptyListingContext(),
+        source,
+        hit,
+        match: scoreMatch(hit.distance, features, hit.entry),
+      });
+    });
   }
+  return out;
+}
 
-  if (count) await batch.commit();
-  return count;
-}
\ No newline at end of file
+/**
+ * Listing upload → buyer searches filed under the listing's brand.
+ * Buyer images are indexed with the search they belong to; fetch only those
+ * within threshold.
+ */
+export const searchDocsSource: CandidateSource = {
+  name: "patternSearches",
+  async find(ctx) {
+    if (!ctx.listingId) return [];
+    const hits = await findHashesWithin(
+      ctx.brandLower,
+      ctx.hashes,
+      ctx.threshold,
+      "buyer"
+    );
+    return candidatesFromBuyerHits(ctx, hits, "patternSearches");
+  },
+};
@@ -0,0 +1,212 @@
+import * as admin from "firebase-admin";
+import {AppConstants} from "../constants";
+
+/**
+ * Pattern search lifecycle.
+ *
+ * users/{uid}/patternSearches/{searchId}
+ *   isActive   – only active searches receive matches
+ *   status     – "active" | "paused" | "expired" | "quota_exceeded" |
+ *                "rejected"
+ *   expiresAt  – optional Timestamp; expirePatternSearches deactivates past it
+ *
+ * Clients may deactivate a search directly (rules) but (re)activation goes
+ * through the resumePatternSearch callable or a new upload, both of which
+ * enforce MAX_ACTIVE_PATTERN_SEARCHES.
+ *
+ * users/{uid}/quotas/patternSearches
+ *   activeSearchIds – searches holding an active slot. Activations reserve a
+ *   slot in a transaction (reserveSearchSlot), so concurrent uploads / resumes
+ *   can't exceed the quota; setSearchState releases it on deactivation and
+ *   onPatternSearchQuotaSync follows client pauses and deletes.
+ */
+export type PatternSearchStatus =
+  "active" | "paused" | "expired" | "quota_exceeded" | "rejected";
+
+/**
+ * users/{uid}/patternSearches
+ * @param {string} uid
+ * @return {CollectionReference}
+ */
+export function searchesCollection(uid: string) {
+  return admin
+    .firestore()
+    .collection("users")
+    .doc(uid)
+    .collection("patternSearches");
+}
+
+/**
+ * Whether a search doc should currently receive matches.
+ * @param {DocumentData} d
+ * @param {number=} now
+ * @return {boolean}
+ */
+export function isSearchLive(
+  d: FirebaseFirestore.DocumentData | undefined,
+  now = Date.now()
+): boolean {
+  if (!d || d["isActive"] === false) return false;
+  const expiresAt = d["expiresAt"];
+  if (
+    expiresAt instanceof admin.firestore.Timestamp &&
+    expiresAt.toMillis() <= now
+  ) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * users/{uid}/quotas/patternSearches
+ * @param {string} uid
+ * @return {DocumentReference}
+ */
+export function searchQuotaRef(uid: string) {
+  return admin
+    .firestore()
+    .collection("users")
+    .doc(uid)
+    .collection("quotas")
+    .doc("patternSearches");
+}
+
+/**
+ * Reserve an active-search slot for `searchId` (a no-op when it already holds
+ * one). Returns false when the user is at MAX_ACTIVE_PATTERN_SEARCHES. The
+ * first reservation seeds the set from the user's active searches; when full,
+ * ids whose search is gone or inactive are pruned before giving up.
+ * @param {string} uid
+ * @param {string} searchId
+ */
+export async function reserveSearchSlot(
+  uid: string,
+  searchId: string
+): Promise<boolean> {
+  const max = AppConstants.MAX_ACTIVE_PATTERN_SEARCHES;
+  const ref = searchQuotaRef(uid);
+  return admin.firestore().runTransaction(async (tx) => {
+    const quota = await tx.get(ref);
+    let ids: string[] = quota.exists ?
+      ((quota.get("activeSearchIds") as unknown[]) ?? []).filter(
+        (id): id is string => typeof id === "string"
+      ) :
+      (
+        await tx.get(searchesCollection(uid).where("isActive", "==", true))
+      ).docs.map((d) => d.id);
+    if (ids.includes(searchId)) {
+      if (!quota.exists) {
+        tx.set(ref, {
+          activeSearchIds: ids,
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+      }
+      return true;
+    }
+    if (ids.length >= max) {
+      const docs = await tx.getAll(
+        ...ids.map((id) => searchesCollection(uid).doc(id))
+      );
+      ids = ids.filter(
+        (_, i) => docs[i]?.exists && docs[i]?.get("isActive") === true
+      );
+    }
+    if (ids.length >= max) return false;
+    tx.set(ref, {
+      activeSearchIds: [...ids, searchId],
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return true;
+  });
+}
+
+/**
+ * Give back a search's active slot.
+ * @param {string} uid
+ * @param {string} searchId
+ */
+export async function releaseSearchSlot(
+  uid: string,
+  searchId: string
+): Promise<void> {
+  await searchQuotaRef(uid).set(
+    {
+      activeSearchIds: admin.firestore.FieldValue.arrayRemove(searchId),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    },
+    {merge: true}
+  );
+}
+
+const stripExt = (file: string) => file.replace(/\.[^.]+$/, "");
+
+/**
+ * Related records for a search doc. The app names its files after its own
+ * search id, which is the image file stem:
+ *   users_active_patterns/{uid}/{brandLower}/{appSearchId}.jpg
+ *   pattern_queries/{brandLower}/{uid}/{appSearchId}.jpg
+ *   active_searches/{uid}/items/{appSearchId}
+ * @param {string} uid
+ * @param {DocumentData} d
+ * @return {Object}
+ */
+export function relatedSearchPaths(
+  uid: string,
+  d: FirebaseFirestore.DocumentData
+) {
+  const imagePath = typeof d["imagePath"] === "string" ? d["imagePath"] : null;
+  const brandLower =
+    typeof d["brandLower"] === "string" ? d["brandLower"] : null;
+  const file = imagePath ? imagePath.split("/").pop() || "" : "";
+  const appSearchId = file ? stripExt(file) : null;
+  return {
+    imagePath,
+    brandLower,
+    appSearchId,
+    queryPath:
+      brandLower && file ?
+        `pattern_queries/${brandLower}/${uid}/${file}` :
+        null,
+  };
+}
+
+/**
+ * Set isActive/status on the search and on the app's active_searches item
+ * (query-image matches are keyed by the app's search id, see filters.ts).
+ * Activating requires a slot from reserveSearchSlot first; deactivating
+ * releases it.
+ * @param {string} uid
+ * @param {string} searchId
+ * @param {DocumentData} d
+ * @param {boolean} isActive
+ * @param {PatternSearchStatus} status
+ */
+export async function setSearchState(
+  uid: string,
+  searchId: string,
+  d: FirebaseFirestore.DocumentData,
+  isActive: boolean,
+  status: PatternSearchStatus
+) {
+  const db = admin.firestore();
+  const now = admin.firestore.FieldValue.serverTimestamp();
+  const {appSearchId} = relatedSearchPaths(uid, d);
+  const batch = db.batch();
+  batch.set(
+    searchesCollection(uid).doc(searchId),
+    {isActive, status, updatedAt: now},
+    {merge: true}
+  );
+  if (appSearchId) {
+    const itemRef = db
+      .collection("active_searches")
+      .doc(uid)
+      .collection("items")
+      .doc(appSearchId);
+    if ((await itemRef.get()).exists) {
+      batch.set(itemRef, {isActive, status}, {merge: true});
+    }
+  }
+  await batch.commit();
+  if (!isActive) await releaseSearchSlot(uid, searchId);
+}
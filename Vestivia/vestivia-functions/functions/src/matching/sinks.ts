@@ -0,0 +1,96 @@
+import * as admin from "firebase-admin";
+import {AppConstants} from "../constants";
+import {matchComponents} from "../similarity";
+import type {MatchCandidate, MatchContext, MatchSink} from "./types";
+
+// Brand the buyer's search was filed under (ANY_BRAND for any-brand searches)
+const searchBrandOf = (c: MatchCandidate, ctx: MatchContext) =>
+  ctx.listingId ? c.hit.entry.brandLower : ctx.brandLower;
+
+/**
+ * The one matchInbox shape, whichever side triggered the match:
+ *   users/{uid}/matchInbox/{listingId}
+ * Creating this doc is what fires onMatchInboxNotify (push notification).
+ * @param {MatchCandidate} c
+ * @param {MatchContext} ctx
+ * @return {Object}
+ */
+export function inboxDoc(c: MatchCandidate, ctx: MatchContext) {
+  return {
+    listingId: c.listingId,
+    searchId: c.searchId,
+    sellerUid: c.listing.sellerUid,
+    listingRef: c.listing.refPath,
+    listingTitle: c.listing.title,
+    listingPrice: c.listing.price,
+    listingSize: c.listing.size,
+    primaryImageId: c.listing.primaryImageId,
+    primaryImageUrl: c.listing.primaryImageUrl,
+    // Coordinating sibling sets: the app shows the whole group for this match
+    groupId: c.listing.groupId,
+    groupListingIds: c.listing.groupListingIds,
+    brandLower: c.brandLower,
+    crossBrand: c.crossBrand,
+    searchBrandLower: searchBrandOf(c, ctx),
+    score: c.match.score,
+    matchedTransform: c.hit.transform,
+    source: c.source,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    seen: false,
+  };
+}
+
+export const inboxSink: MatchSink = {
+  name: "inbox",
+  write(batch, c, ctx) {
+    const ref = admin
+      .firestore()
+      .collection("users")
+      .doc(c.uid)
+      .collection("matchInbox")
+      .doc(c.listingId);
+    batch.set(ref, inboxDoc(c, ctx), {merge: true});
+  },
+};
+
+/**
+ * Server-only audit records, keyed by the side that was uploaded:
+ *   listing upload → matches_by_listing/{listingId}/hits/{uid}
+ *   search upload  → matches_by_search/{uid}_{searchId}/hits/{listingId}
+ */
+export const auditSink: MatchSink = {
+  name: "audit",
+  write(batch, c, ctx) {
+    const db = admin.firestore();
+    const ref = ctx.listingId ?
+      db
+        .collection("matches_by_listing")
+        .doc(c.listingId)
+        .collection("hits")
+        .doc(c.uid) :
+      db
+        .collection("matches_by_search")
+        .doc(`${c.uid}_${c.searchId ?? "none"}`)
+        .collection("hits")
+        .doc(c.listingId);
+    batch.set(
+      ref,
+      {
+        uid: c.uid,
+        searchId: c.searchId,
+        listingId: c.listingId,
+        brandLower: c.brandLower,
+        crossBrand: c.crossBrand,
+        searchBrandLower: searchBrandOf(c, ctx),
+        score: c.match.score,
+        components: matchComponents(c.match),
+        matchedTransform: c.hit.transform,
+        sourcePath: c.hit.entry.path,
+        source: c.source,
+        algorithmVersion: AppConstants.HASH_ALGORITHM_VERSION,
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      },
+      {merge: true}
+    );
+  },
+};
@@ -0,0 +1,72 @@
+import * as admin from "firebase-admin";
+import {AppConstants} from "../constants";
+
+/**
+ * Per-brand pHash thresholds.
+ *
+ * Layout: match_thresholds/{brandLower}
+ *   threshold             – applied override (used by matchers when present)
+ *   recommendedThreshold  – written by recomputeMatchThresholds from buyer
+ *                           feedback
+ *   autoApply             – when true, the scheduled job also writes
+ *                           `threshold`
+ *
+ * Brands without a doc (or with an out-of-range value) use
+ * PHASH_MATCH_THRESHOLD.
+ */
+export interface BrandThresholdDoc {
+  brandLower: string;
+  threshold?: number;
+  recommendedThreshold?: number | null;
+  autoApply?: boolean;
+}
+
+const CACHE_TTL_MS = 5 * 60 * 1000;
+const cache = new Map<string, {threshold: number; cachedAt: number}>();
+
+/**
+ * Round a threshold and clamp it to the allowed range.
+ * @param {number} t
+ * @return {number}
+ */
+export function clampThreshold(t: number): number {
+  const {MIN_THRESHOLD, MAX_THRESHOLD} = AppConstants.MATCH_FEEDBACK;
+  return Math.min(MAX_THRESHOLD, Math.max(MIN_THRESHOLD, Math.round(t)));
+}
+
+/**
+ * match_thresholds
+ * @return {CollectionReference}
+ */
+export function thresholdsCollection() {
+  return admin.firestore().collection("match_thresholds");
+}
+
+/**
+ * Threshold to use for a brand: applied override if set, otherwise the global
+ * default.
+ * @param {string} brandLower
+ */
+export async function getBrandThreshold(brandLower: string): Promise<number> {
+  const fallback = AppConstants.PHASH_MATCH_THRESHOLD;
+  if (!brandLower) return fallback;
+
+  const cached = cache.get(brandLower);
+  if (cached && Date.now() - cached.cachedAt < CACHE_TTL_MS) {
+    return cached.threshold;
+  }
+
+  let threshold: number = fallback;
+  try {
+    const snap = await thresholdsCollection().doc(brandLower).get();
+    const applied = snap.get("threshold");
+    if (typeof applied === "number" && Number.isFinite(applied)) {
+      threshold = clampThreshold(applied);
+    }
+  } catch (e) {
+    console.warn("[THRESHOLD] read:fail", {brandLower, err: String(e)});
+  }
+
+  cache.set(brandLower, {threshold, cachedAt: Date.now()});
+  return threshold;
+}
@@ -1,9 +1,86 @@
+import type {PatternHashSet} from "../hashing";
+import type {MatchScore, SimilarityFeatures} from "../similarity";
+import type {HashIndexHit} from "./hashIndex";
+
+/**
+ * Listing details copied onto inbox entries so the inbox row and the push
+ * notification can show a preview. Resolved from all_listings/{listingId}
+ * (listing_by_id mirror as fallback); any field may be missing.
+ */
+export interface ListingContext {
+  refPath: string | null;
+  sellerUid: string | null;
+  status: string | null;
+  title: string | null;
+  price: string | null;
+  size: string | null;
+  category: string | null;
+  gender: string | null;
+  condition: string | null;
+  primaryImageId: string | null;
+  primaryImageUrl: string | null;
+  // Sibling-set group (matching/groups.ts) and its still-available members,
+  // this listing included
+  groupId: string | null;
+  groupListingIds: string[];
+}
+
+/**
+ * Everything the engine knows about the image that was just uploaded.
+ * Listing-side uploads set listingId (+ resolved listing); buyer-side uploads
+ * set uid + searchId. Sources use whichever side they match against.
+ */
 export interface MatchContext {
   brandLower: string;
+  threshold: number;
+  hashes: PatternHashSet;
+  features: SimilarityFeatures | null;
+  bucketName: string | null;
+  // Cloudflare Images account hash for preview URLs (null = no URL)
+  imageAccountHash: string | null;
+  // Listing-side upload
+  listingId: string | null;
+  listing: ListingContext | null;
+  // Buyer-side upload
+  uid: string | null;
+  searchId: string | null;
+}
+
+/**
+ * One buyer ↔ listing pair produced by a candidate source.
+ * `brandLower` is the listing's brand; `crossBrand` is set when the search was
+ * filed under another brand (or ANY_BRAND).
+ */
+export interface MatchCandidate {
+  uid: string;
+  searchId: string | null;
   listingId: string;
-  listingPhash: string;
-  bucketName: string;
-  sellerUid?: string | null;
-  listingRefPath?: string | null;
-  PHASH_THRESHOLD: number;
-}
\ No newline at end of file
+  brandLower: string;
+  crossBrand: boolean;
+  listing: ListingContext;
+  source: string;
+  hit: HashIndexHit;
+  match: MatchScore;
+}
+
+/**
+ * Finds candidate pairs for an upload (e.g. buyer searches, static queries,
+ * listings).
+ */
+export interface CandidateSource {
+  name: string;
+  find(ctx: MatchContext): Promise<MatchCandidate[]>;
+}
+
+/**
+ * Persists delivered candidates (e.g. inbox, audit). Writes go into the
+ * engine's batch.
+ */
+export interface MatchSink {
+  name: string;
+  write(
+    batch: FirebaseFirestore.WriteBatch,
+    candidate: MatchCandidate,
+    ctx: MatchContext
+  ): void;
+}
@@ -0,0 +1,48 @@
+import * as admin from "firebase-admin";
+import type {QualityResult} from "../quality";
+import {safeId, type ParsedPatternPath} from "./hashIndex";
+
+/**
+ * Quality verdict for a pattern upload, one doc per Storage path:
+ *   pattern_upload_status/{safeId(path)}
+ * The app observes it after uploading (owner-readable, see firestore.rules) to
+ * show "accepted" or e.g. "rejected: too_blurry" next to PatternTipsSheet.
+ * @param {string} path
+ * @return {DocumentReference}
+ */
+export function uploadStatusRef(path: string) {
+  return admin
+    .firestore()
+    .collection("pattern_upload_status")
+    .doc(safeId(path));
+}
+
+/**
+ * Store the quality verdict for an uploaded pattern image.
+ * @param {ParsedPatternPath} parsed
+ * @param {QualityResult} quality
+ * @param {Object} extra
+ */
+export async function recordUploadStatus(
+  parsed: ParsedPatternPath,
+  quality: QualityResult,
+  extra: {
+    ownerUid: string | null;
+    searchId?: string | null;
+    generation?: string | number | null;
+  }
+): Promise<void> {
+  await uploadStatusRef(parsed.path).set({
+    path: parsed.path,
+    kind: parsed.kind,
+    brandLower: parsed.brandLower,
+    uid: extra.ownerUid,
+    listingId: parsed.listingId,
+    searchId: extra.searchId ?? parsed.searchId,
+    generation: extra.generation ?? null,
+    status: quality.status,
+    reason: quality.reason,
+    metrics: quality.metrics,
+    checkedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+}
@@ -0,0 +1,587 @@
+// functions/src/messages.ts
+import {onCall, HttpsError} from "firebase-functions/v2/https";
+import {onDocumentCreated} from "firebase-functions/v2/firestore";
+import * as admin from "firebase-admin";
+import {AppConstants} from "./constants";
+import {contactInfoPolicy, detectContactInfo} from "./contactInfo";
+import {resolveListingContexts} from "./matching/listings";
+import {sendUserPush} from "./notifications";
+
+// Ensure Admin SDK is initialized even when this module is imported directly
+if (admin.apps.length === 0) {
+  admin.initializeApp();
+}
+
+const db = admin.firestore();
+
+/**
+ * Server-maintained summary on conversations/{cid}:
+ *   lastMessage / lastSenderId / lastMessageId / lastMessageAt
+ *   unreadCount  – { [uid]: messages from others since that member's read
+ *                  cursor }
+ *   readCursor   – { [uid]: { messageId, readAt } } (markConversationRead)
+ * Clients cannot write these (see firestore.rules).
+ *
+ * Conversations are created only through getOrCreateConversation, one per
+ * pair of users: an existing thread of the pair (including older client-created
+ * ones with random ids) is reused, new ones get id directConversationId(a, b).
+ * `listing` is a snapshot of the listing the thread was last opened from.
+ * Messages are posted only through sendConversationMessage.
+ */
+const MAX_UNREAD_RECOUNT = 100;
+const MAX_ATTACHMENTS = 10;
+
+/**
+ * Deterministic id of the one direct thread between two users.
+ * @param {string} a
+ * @param {string} b
+ * @return {string}
+ */
+export function directConversationId(a: string, b: string): string {
+  return `dm_${[a, b].sort().join("_")}`;
+}
+
+/**
+ * users/{uid}/blockedUsers/{blockedUid} exists when `uid` blocked `blockedUid`.
+ * @param {string} uid
+ * @param {string} blockedUid
+ */
+async function isBlocking(uid: string, blockedUid: string): Promise<boolean> {
+  const snap = await db
+    .collection("users")
+    .doc(uid)
+    .collection("blockedUsers")
+    .doc(blockedUid)
+    .get();
+  return snap.exists;
+}
+
+/**
+ * Name shown to other members: username, then displayName.
+ * @param {string} uid
+ */
+export async function userDisplayName(uid: string): Promise<string> {
+  const snap = await db.collection("users").doc(uid).get();
+  const name = snap.get("username") ?? snap.get("displayName");
+  return typeof name === "string" && name.trim() ? name.trim() : "Someone";
+}
+
+/**
+ * Server-posted notices (type "system", e.g. contact-info warnings); never
+ * pushed or counted unread.
+ * @param {DocumentData} msg
+ * @return {boolean}
+ */
+export function isSystemMessage(msg: FirebaseFirestore.DocumentData): boolean {
+  return msg["type"] === "system";
+}
+
+/**
+ * One-line preview of a message for pushes and conversation summaries.
+ * Stored text is already masked by sendConversationMessage.
+ * @param {DocumentData} msg
+ * @return {string}
+ */
+export function messagePreview(msg: FirebaseFirestore.DocumentData): string {
+  const max = AppConstants.MESSAGING.PREVIEW_MAX_CHARS;
+  const raw = typeof msg["text"] === "string" ? msg["text"] : "";
+  const text = raw.replace(/\s+/g, " ").trim();
+  if (text) return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+  return Array.isArray(msg["attachments"]) && msg["attachments"].length ?
+    "Sent an attachment" :
+    "New message";
+}
+
+/**
+ * True when the member has the thread open (fresh presence heartbeat).
+ * @param {string} cid
+ * @param {string} uid
+ */
+async function isViewingConversation(
+  cid: string,
+  uid: string
+): Promise<boolean> {
+  const snap = await db
+    .collection("conversations")
+    .doc(cid)
+    .collection("presence")
+    .doc(uid)
+    .get();
+  const viewingAt = snap.get("viewingAt");
+  if (!(viewingAt instanceof admin.firestore.Timestamp)) return false;
+  return (
+    Date.now() - viewingAt.toMillis() <
+    AppConstants.MESSAGING.PRESENCE_TTL_SEC * 1000
+  );
+}
+
+/**
+ * onConversationMessageNotify
+ * Fires when a message is created:
+ *   conversations/{cid}/messages/{mid}
+ * Pushes to every member except the sender, skipping members who are
+ * currently viewing the thread. data.deeplink opens the conversation.
+ */
+export const onConversationMessageNotify = onDocumentCreated(
+  {region: "us-central1", document: "conversations/{cid}/messages/{mid}"},
+  async (event) => {
+    const cid = event.params.cid as string;
+    const mid = event.params.mid as string;
+    const msg = event.data?.data();
+    if (!msg || isSystemMessage(msg)) {
+      console.log("[MSG_NOTIF] no event data or system message; exiting", {
+        cid,
+        mid,
+      });
+      return;
+    }
+
+    const senderId = typeof msg["senderId"] === "string" ? msg["senderId"] : "";
+    const conv = await db.collection("conversations").doc(cid).get();
+    const members: string[] = Array.isArray(conv.get("members")) ?
+      conv.get("members") :
+      [];
+    const recipients = members.filter(
+      (uid) => typeof uid === "string" && uid && uid !== senderId
+    );
+    if (!senderId || !recipients.length) {
+      console.log("[MSG_NOTIF] nobody to notify", {
+        cid,
+        mid,
+        senderId,
+        members: members.length,
+      });
+      return;
+    }
+
+    const senderName = await userDisplayName(senderId);
+    const body = messagePreview(msg);
+    const deeplink = `vestivia://conversation/${encodeURIComponent(cid)}`;
+
+    await Promise.all(
+      recipients.map(async (uid) => {
+        try {
+          if (await isViewingConversation(cid, uid)) {
+            console.log("[MSG_NOTIF] suppressed:viewing", {cid, mid, uid});
+            return;
+          }
+          await sendUserPush(uid, {
+            category: "messages",
+            title: senderName,
+            body,
+            analyticsLabel: "conversation_message",
+            data: {
+              type: "message",
+              conversationId: cid,
+              messageId: mid,
+              senderId,
+              deeplink,
+            },
+          });
+        } catch (err) {
+          console.error("[MSG_NOTIF] push:send:fatal", {
+            cid,
+            mid,
+            uid,
+            error: String(err),
+          });
+        }
+      })
+    );
+  }
+);
+
+/**
+ * onConversationMessageSummary
+ * Denormalizes the newest message onto conversations/{cid} and bumps
+ * unreadCount for every member except the sender. Out-of-order deliveries
+ * still count as unread but never replace a newer lastMessage. Each message is
+ * counted once: the transaction stamps `summarizedAt` on it, and redelivered
+ * events for a stamped message are skipped.
+ */
+export const onConversationMessageSummary = onDocumentCreated(
+  {region: "us-central1", document: "conversations/{cid}/messages/{mid}"},
+  async (event) => {
+    const cid = event.params.cid as string;
+    const mid = event.params.mid as string;
+    const msg = event.data?.data();
+    if (!msg || isSystemMessage(msg)) return;
+
+    const senderId = typeof msg["senderId"] === "string" ? msg["senderId"] : "";
+    const sentAt =
+      msg["createdAt"] instanceof admin.firestore.Timestamp ?
+        (msg["createdAt"] as admin.firestore.Timestamp) :
+        admin.firestore.Timestamp.now();
+    const convRef = db.collection("conversations").doc(cid);
+    const msgRef = convRef.collection("messages").doc(mid);
+
+    const applied = await db.runTransaction(async (tx) => {
+      const [conv, current] = await Promise.all([
+        tx.get(convRef),
+        tx.get(msgRef),
+      ]);
+      if (!conv.exists || !current.exists || current.get("summarizedAt")) {
+        return false;
+      }
+      const members: string[] = Array.isArray(conv.get("members")) ?
+        conv.get("members") :
+        [];
+
+      const update: Record<string, unknown> = {
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      };
+      members
+        .filter((uid) => typeof uid === "string" && uid && uid !== senderId)
+        .forEach((uid) => {
+          update[`unreadCount.${uid}`] =
+            admin.firestore.FieldValue.increment(1);
+        });
+
+      const prevAt = conv.get("lastMessageAt");
+      if (
+        !(prevAt instanceof admin.firestore.Timestamp) ||
+        prevAt.toMillis() <= sentAt.toMillis()
+      ) {
+        Object.assign(update, {
+          lastMessage: messagePreview(msg),
+          lastSenderId: senderId || null,
+          lastMessageId: mid,
+          lastMessageAt: sentAt,
+        });
+      }
+      tx.update(convRef, update);
+      tx.update(msgRef, {
+        summarizedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      return true;
+    });
+
+    console.log(
+      applied ?
+        "[MSG_SUMMARY] updated" :
+        "[MSG_SUMMARY] skipped – already counted",
+      {cid, mid, senderId}
+    );
+  }
+);
+
+/**
+ * markConversationRead
+ * Moves the caller's read cursor to `messageId` (default: the latest message)
+ * and recomputes their unreadCount from messages by others after it. Only
+ * messages onConversationMessageSummary has already counted (summarizedAt)
+ * are included; it adds the rest when it runs. System notices never count.
+ */
+export const markConversationRead = onCall(
+  {region: "us-central1"},
+  async (req) => {
+    if (!req.auth?.uid) {
+      throw new HttpsError("unauthenticated", "Auth required.");
+    }
+    const uid = req.auth.uid;
+    const cid = String(req.data?.conversationId || "").trim();
+    if (!cid) {
+      throw new HttpsError(
+        "failed-precondition",
+        "conversationId is required."
+      );
+    }
+
+    const convRef = db.collection("conversations").doc(cid);
+    // Recount and write together so a message summarized meanwhile isn't lost
+    const {messageId, unread} = await db.runTransaction(async (tx) => {
+      const conv = await tx.get(convRef);
+      const members: string[] = Array.isArray(conv.get("members")) ?
+        conv.get("members") :
+        [];
+      if (!conv.exists || !members.includes(uid)) {
+        throw new HttpsError("not-found", "Conversation not found.");
+      }
+
+      const messageId =
+        String(req.data?.messageId || conv.get("lastMessageId") || "").trim() ||
+        null;
+      let unread = 0;
+      if (messageId && messageId !== conv.get("lastMessageId")) {
+        const cursor = await tx.get(
+          convRef.collection("messages").doc(messageId)
+        );
+        if (!cursor.exists) {
+          throw new HttpsError("not-found", "Message not found.");
+        }
+        const after = await tx.get(
+          convRef
+            .collection("messages")
+            .where("createdAt", ">", cursor.get("createdAt"))
+            .orderBy("createdAt")
+            .limit(MAX_UNREAD_RECOUNT)
+        );
+        unread = after.docs.filter(
+          (d) =>
+            d.get("senderId") !== uid &&
+            !isSystemMessage(d.data()) &&
+            d.get("summarizedAt")
+        ).length;
+      }
+
+      tx.update(convRef, {
+        [`unreadCount.${uid}`]: unread,
+        [`readCursor.${uid}`]: {
+          messageId,
+          readAt: admin.firestore.FieldValue.serverTimestamp(),
+        },
+      });
+      return {messageId, unread};
+    });
+
+    console.log("[MSG_SUMMARY] read", {cid, uid, messageId, unread});
+    return {ok: true, unreadCount: unread};
+  }
+);
+
+/**
+ * getOrCreateConversation
+ * Input: { listingId } (talk to its seller) or { targetUid }.
+ * Returns the caller's existing thread with that user, creating it if needed.
+ * With a listingId, the listing snapshot on the thread is refreshed.
+ */
+export const getOrCreateConversation = onCall(
+  {region: "us-central1"},
+  async (req) => {
+    if (!req.auth?.uid) {
+      throw new HttpsError("unauthenticated", "Auth required.");
+    }
+    const uid = req.auth.uid;
+    const listingId = String(req.data?.listingId || "").trim();
+    let targetUid = String(req.data?.targetUid || "").trim();
+    if (!listingId && !targetUid) {
+      throw new HttpsError(
+        "failed-precondition",
+        "listingId or targetUid is required."
+      );
+    }
+
+    let listing: Record<string, unknown> | null = null;
+    if (listingId) {
+      const ctx = (await resolveListingContexts([listingId])).get(listingId);
+      if (!ctx?.sellerUid) {
+        throw new HttpsError("not-found", "Listing not found.");
+      }
+      if (targetUid && targetUid !== ctx.sellerUid) {
+        throw new HttpsError(
+          "invalid-argument",
+          "targetUid does not own this listing."
+        );
+      }
+      targetUid = ctx.sellerUid;
+      listing = {
+        listingId,
+        title: ctx.title,
+        price: ctx.price,
+        imageId: ctx.primaryImageId,
+      };
+    }
+    if (targetUid === uid) {
+      throw new HttpsError(
+        "failed-precondition",
+        "You cannot message yourself."
+      );
+    }
+
+    const target = await db.collection("users").doc(targetUid).get();
+    if (!target.exists) {
+      throw new HttpsError("not-found", "User not found.");
+    }
+    if (await isBlocking(targetUid, uid)) {
+      throw new HttpsError("permission-denied", "You can't message this user.");
+    }
+
+    const pair = [uid, targetUid].sort();
+    const convRef = db
+      .collection("conversations")
+      .doc(directConversationId(uid, targetUid));
+    // Threads created before deterministic ids have random ids; look one up
+    // only when the pair has no direct thread, newest first when duplicates
+    // exist
+    let legacyRef: FirebaseFirestore.DocumentReference | null = null;
+    if (!(await convRef.get()).exists) {
+      const legacy = await db
+        .collection("conversations")
+        .where("members", "in", [pair, [...pair].reverse()])
+        .get();
+      const newest = legacy.docs.sort(
+        (a, b) =>
+          (b.get("updatedAt")?.toMillis?.() ?? 0) -
+          (a.get("updatedAt")?.toMillis?.() ?? 0)
+      )[0];
+      legacyRef = newest?.ref ?? null;
+    }
+
+    const {cid, created} = await db.runTransaction(async (tx) => {
+      const now = admin.firestore.FieldValue.serverTimestamp();
+      const listingUpdate = listing ?
+        {listing: {...listing, attachedAt: admin.firestore.Timestamp.now()}} :
+        {};
+
+      for (const ref of legacyRef ? [convRef, legacyRef] : [convRef]) {
+        if (!(await tx.get(ref)).exists) continue;
+        if (listing) tx.update(ref, listingUpdate);
+        return {cid: ref.id, created: false};
+      }
+      tx.set(convRef, {
+        members: pair,
+        createdBy: uid,
+        unreadCount: {[uid]: 0, [targetUid]: 0},
+        createdAt: now,
+        updatedAt: now,
+        ...listingUpdate,
+      });
+      return {cid: convRef.id, created: true};
+    });
+
+    console.log("[CONVERSATION] getOrCreate", {
+      uid,
+      targetUid,
+      cid,
+      listingId: listingId || null,
+      created,
+    });
+    return {ok: true, conversationId: cid, created};
+  }
+);
+
+/**
+ * sendConversationMessage
+ * Input: { conversationId, text?, attachments?: string[] }.
+ * The only way members post: contact details are checked (contactInfo.ts)
+ * before the message is stored, so the raw text never reaches the thread.
+ * Per MESSAGING.CONTACT_INFO_POLICY matches are masked or only flagged; either
+ * way
+ *   moderation_flags/contact_info_{cid}_{mid}  – original text for moderators
+ *   a system message in the thread warning both members
+ */
+export const sendConversationMessage = onCall(
+  {region: "us-central1"},
+  async (req) => {
+    if (!req.auth?.uid) {
+      throw new HttpsError("unauthenticated", "Auth required.");
+    }
+    const uid = req.auth.uid;
+    const cid = String(req.data?.conversationId || "").trim();
+    const text = typeof req.data?.text === "string" ? req.data.text.trim() : "";
+    const attachments: unknown = req.data?.attachments ?? [];
+    if (!cid) {
+      throw new HttpsError(
+        "failed-precondition",
+        "conversationId is required."
+      );
+    }
+    if (
+      !Array.isArray(attachments) ||
+      attachments.length > MAX_ATTACHMENTS ||
+      !attachments.every((a) => typeof a === "string" && a)
+    ) {
+      throw new HttpsError(
+        "invalid-argument",
+        `attachments must be up to ${MAX_ATTACHMENTS} URLs.`
+      );
+    }
+    if (!text && !attachments.length) {
+      throw new HttpsError(
+        "failed-precondition",
+        "text or attachments required."
+      );
+    }
+    if (text.length > AppConstants.MESSAGING.MAX_MESSAGE_CHARS) {
+      throw new HttpsError(
+        "invalid-argument",
+        "text must be at most " +
+          `${AppConstants.MESSAGING.MAX_MESSAGE_CHARS} characters.`
+      );
+    }
+
+    const convRef = db.collection("conversations").doc(cid);
+    const conv = await convRef.get();
+    const members: string[] = Array.isArray(conv.get("members")) ?
+      conv.get("members") :
+      [];
+    if (!conv.exists || !members.includes(uid)) {
+      throw new HttpsError("not-found", "Conversation not found.");
+    }
+    const others = members.filter(
+      (m) => typeof m === "string" && m && m !== uid
+    );
+    if (
+      (await Promise.all(others.map((o) => isBlocking(o, uid)))).some(Boolean)
+    ) {
+      throw new HttpsError("permission-denied", "You can't message this user.");
+    }
+
+    const result = detectContactInfo(text);
+    const msgRef = convRef.collection("messages").doc();
+    const mid = msgRef.id;
+    // Explicit timestamps so the warning always sorts right after the message
+    const sentAt = admin.firestore.Timestamp.now();
+    const batch = db.batch();
+    batch.set(msgRef, {
+      text: result.maskedText,
+      senderId: uid,
+      createdAt: sentAt,
+      ...(attachments.length ? {attachments} : {}),
+      ...(result.masked ?
+        {moderation: {kinds: result.kinds, masked: true}} :
+        {}),
+    });
+
+    if (result.findings.length) {
+      batch.set(
+        db.collection("moderation_flags").doc(`contact_info_${cid}_${mid}`),
+        {
+          type: "contact_info",
+          status: "open",
+          conversationId: cid,
+          messageId: mid,
+          senderUid: uid,
+          kinds: result.kinds,
+          findings: result.findings.map((f) => ({
+            kind: f.kind,
+            match: f.match,
+            action: contactInfoPolicy(f.kind),
+          })),
+          originalText: text,
+          masked: result.masked,
+          createdAt: sentAt,
+        }
+      );
+      batch.set(convRef.collection("messages").doc(`system_${mid}`), {
+        type: "system",
+        senderId: "system",
+        text: result.masked ?
+          "For your safety, contact and payment details were removed. " +
+            "Keep payments in Vestivia to stay covered by buyer and seller " +
+            "protection." :
+          "Heads up: paying or meeting outside Vestivia isn't covered by " +
+            "buyer and seller protection.",
+        replyTo: mid,
+        createdAt: admin.firestore.Timestamp.fromMillis(sentAt.toMillis() + 1),
+      });
+    }
+    await batch.commit();
+
+    if (result.findings.length) {
+      console.log("[MSG_MODERATION] contact_info", {
+        cid,
+        mid,
+        senderId: uid,
+        kinds: result.kinds,
+        masked: result.masked,
+      });
+    }
+    return {
+      ok: true,
+      messageId: mid,
+      masked: result.masked,
+      kinds: result.kinds,
+    };
+  }
+);
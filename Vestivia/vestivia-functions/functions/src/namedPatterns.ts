@@ -0,0 +1,254 @@
+// functions/src/namedPatterns.ts
+import {onCall, HttpsError} from "firebase-functions/v2/https";
+import * as admin from "firebase-admin";
+import {AppConstants} from "./constants";
+import {computeHashSetFromBuffer} from "./hashing";
+import {
+  findNearestPattern,
+  patternsCollection,
+} from "./matching/patternCatalog";
+import {brandKey} from "./matching/hashIndex";
+
+// Ensure Admin SDK is initialized even when this module is imported directly
+if (admin.apps.length === 0) {
+  admin.initializeApp();
+}
+
+const db = admin.firestore();
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+const MAX_PATTERN_NAME_CHARS = 60;
+
+/**
+ * Validated brandLower and patternId from callable data.
+ * @param {*} data
+ * @return {Object}
+ */
+function patternArgs(data: unknown): {brandLower: string; patternId: string} {
+  const d = (data ?? {}) as Record<string, unknown>;
+  const brandLower = brandKey(String(d["brandLower"] || ""));
+  const patternId = String(d["patternId"] || "").trim();
+  if (!brandLower || !patternId) {
+    throw new HttpsError(
+      "failed-precondition",
+      "brandLower and patternId are required."
+    );
+  }
+  return {brandLower, patternId};
+}
+
+/**
+ * namePattern
+ * Moderators (custom claim `admin: true`) name or rename a catalog cluster,
+ * e.g. { brandLower, patternId, name: "Bow Print" }. Names are unique per
+ * brand; followers' users/{uid}/followedPatterns copies are renamed too.
+ */
+export const namePattern = onCall({region: "us-central1"}, async (req) => {
+  if (!req.auth?.uid) {
+    throw new HttpsError("unauthenticated", "Auth required.");
+  }
+  if (req.auth.token["admin"] !== true) {
+    throw new HttpsError("permission-denied", "Moderators only.");
+  }
+  const {brandLower, patternId} = patternArgs(req.data);
+  const name =
+    typeof req.data?.name === "string" ?
+      req.data.name.trim().replace(/\s+/g, " ") :
+      "";
+  if (!name || name.length > MAX_PATTERN_NAME_CHARS) {
+    throw new HttpsError(
+      "invalid-argument",
+      `name must be 1–${MAX_PATTERN_NAME_CHARS} characters.`
+    );
+  }
+  const nameLower = name.toLowerCase();
+
+  const patternRef = patternsCollection(brandLower).doc(patternId);
+  await db.runTransaction(async (tx) => {
+    const pattern = await tx.get(patternRef);
+    if (!pattern.exists) {
+      throw new HttpsError("not-found", "Pattern not found.");
+    }
+    const taken = await tx.get(
+      patternsCollection(brandLower)
+        .where("nameLower", "==", nameLower)
+        .limit(2)
+    );
+    if (taken.docs.some((d) => d.id !== patternId)) {
+      throw new HttpsError(
+        "already-exists",
+        `${brandLower} already has a pattern named "${name}".`
+      );
+    }
+    tx.update(patternRef, {
+      name,
+      nameLower,
+      namedBy: req.auth?.uid ?? null,
+      namedAt: admin.firestore.FieldValue.serverTimestamp(),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  });
+
+  const followers = await patternRef.collection("followers").get();
+  for (
+    let i = 0;
+    i < followers.docs.length;
+    i += AppConstants.FIRESTORE_BATCH_LIMIT
+  ) {
+    const batch = db.batch();
+    followers.docs
+      .slice(i, i + AppConstants.FIRESTORE_BATCH_LIMIT)
+      .forEach((f) => {
+        batch.set(
+          db
+            .collection("users")
+            .doc(f.id)
+            .collection("followedPatterns")
+            .doc(`${brandLower}_${patternId}`),
+          {name},
+          {merge: true}
+        );
+      });
+    await batch.commit();
+  }
+
+  console.log("[PATTERN_CATALOG] named", {
+    uid: req.auth.uid,
+    brandLower,
+    patternId,
+    name,
+    followers: followers.size,
+  });
+  return {ok: true, name};
+});
+
+/**
+ * followPattern
+ * Follow a named catalog pattern; new listings assigned to it land in the
+ * follower's match inbox. Writes:
+ *   brands/{brandLower}/patterns/{patternId}/followers/{uid}
+ *   users/{uid}/followedPatterns/{brandLower}_{patternId}
+ */
+export const followPattern = onCall({region: "us-central1"}, async (req) => {
+  if (!req.auth?.uid) {
+    throw new HttpsError("unauthenticated", "Auth required.");
+  }
+  const uid = req.auth.uid;
+  const {brandLower, patternId} = patternArgs(req.data);
+
+  const patternRef = patternsCollection(brandLower).doc(patternId);
+  const pattern = await patternRef.get();
+  if (!pattern.exists || !pattern.get("name")) {
+    throw new HttpsError("not-found", "Pattern not found.");
+  }
+
+  const now = admin.firestore.FieldValue.serverTimestamp();
+  const batch = db.batch();
+  batch.set(patternRef.collection("followers").doc(uid), {uid, createdAt: now});
+  batch.set(
+    db
+      .collection("users")
+      .doc(uid)
+      .collection("followedPatterns")
+      .doc(`${brandLower}_${patternId}`),
+    {
+      brandLower,
+      patternId,
+      name: pattern.get("name"),
+      createdAt: now,
+    }
+  );
+  await batch.commit();
+
+  console.log("[PATTERN_CATALOG] follow", {uid, brandLower, patternId});
+  return {ok: true};
+});
+
+/** unfollowPattern – inverse of followPattern. */
+export const unfollowPattern = onCall({region: "us-central1"}, async (req) => {
+  if (!req.auth?.uid) {
+    throw new HttpsError("unauthenticated", "Auth required.");
+  }
+  const uid = req.auth.uid;
+  const {brandLower, patternId} = patternArgs(req.data);
+
+  const batch = db.batch();
+  batch.delete(
+    patternsCollection(brandLower)
+      .doc(patternId)
+      .collection("followers")
+      .doc(uid)
+  );
+  batch.delete(
+    db
+      .collection("users")
+      .doc(uid)
+      .collection("followedPatterns")
+      .doc(`${brandLower}_${patternId}`)
+  );
+  await batch.commit();
+
+  console.log("[PATTERN_CATALOG] unfollow", {uid, brandLower, patternId});
+  return {ok: true};
+});
+
+/**
+ * suggestPatternName
+ * Listing-time helper: given the seller's pattern photo (base64) and brand,
+ * returns the closest named catalog pattern, or null when nothing is close.
+ */
+export const suggestPatternName = onCall(
+  {region: "us-central1", memory: "512MiB"},
+  async (req) => {
+    if (!req.auth?.uid) {
+      throw new HttpsError("unauthenticated", "Auth required.");
+    }
+    const brandLower = brandKey(String(req.data?.brandLower || ""));
+    const b64 =
+      typeof req.data?.imageBase64 === "string" ?
+        req.data.imageBase64.replace(/^data:[^,]*,/, "").trim() :
+        "";
+    if (!brandLower || !b64) {
+      throw new HttpsError(
+        "failed-precondition",
+        "brandLower and imageBase64 are required."
+      );
+    }
+    const buf = Buffer.from(b64, "base64");
+    if (buf.length < 32 || buf.length > MAX_IMAGE_BYTES) {
+      throw new HttpsError(
+        "invalid-argument",
+        "imageBase64 must be an image up to 5 MB."
+      );
+    }
+
+    let hashes;
+    try {
+      hashes = await computeHashSetFromBuffer(buf);
+    } catch (e) {
+      console.warn("[PATTERN_CATALOG] suggest:hash:fail", {err: String(e)});
+      throw new HttpsError("invalid-argument", "Could not read the image.");
+    }
+
+    const nearest = await findNearestPattern(
+      brandLower,
+      hashes,
+      AppConstants.PATTERN_CATALOG.CLUSTER_THRESHOLD,
+      true
+    );
+    console.log("[PATTERN_CATALOG] suggest", {
+      brandLower,
+      patternId: nearest?.id ?? null,
+      distance: nearest?.distance ?? null,
+    });
+    if (!nearest) return {ok: true, suggestion: null};
+    return {
+      ok: true,
+      suggestion: {
+        patternId: nearest.id,
+        name: nearest.data.name,
+        distance: nearest.distance,
+        sampleImages: nearest.data.sampleImages ?? [],
+      },
+    };
+  }
+);
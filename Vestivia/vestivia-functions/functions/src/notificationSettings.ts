@@ -0,0 +1,375 @@
+// functions/src/notificationSettings.ts - Per-user notification preferences
+import {onCall, HttpsError} from "firebase-functions/v2/https";
+import * as admin from "firebase-admin";
+
+// Ensure Admin SDK is initialized even when this module is imported directly
+if (admin.apps.length === 0) {
+  admin.initializeApp();
+}
+
+const db = admin.firestore();
+
+/**
+ * users/{uid}/settings/notifications
+ *   matchDelivery      – "instant" (one push per match, default) | "hourly" |
+ *                        "daily"
+ *   categories         – { matches, messages, followers, orders } push toggles
+ *                        (default on)
+ *   sound              – play the default sound (default on)
+ *   quietHours         – { enabled, start "HH:mm", end "HH:mm", timeZone (IANA)
+ *                        }
+ *                        timeZone is also the user's time zone for daily
+ *                        digests
+ *   matchDigestSentAt  – server; end of the window covered by the last digest
+ *                        (reset when matchDelivery changes)
+ * Written only through updateNotificationSettings.
+ */
+export type MatchDelivery = "instant" | "hourly" | "daily";
+export const MATCH_DELIVERY_MODES: MatchDelivery[] = [
+  "instant",
+  "hourly",
+  "daily",
+];
+
+// "account" (listing warnings etc.) cannot be switched off
+export type NotificationCategory =
+  "matches" | "messages" | "followers" | "orders" | "account";
+export type ToggleableCategory = Exclude<NotificationCategory, "account">;
+export const TOGGLEABLE_CATEGORIES: ToggleableCategory[] = [
+  "matches",
+  "messages",
+  "followers",
+  "orders",
+];
+
+export interface QuietHours {
+  enabled: boolean;
+  start: string;
+  end: string;
+  timeZone: string;
+}
+
+export interface NotificationSettings {
+  matchDelivery: MatchDelivery;
+  categories: Record<ToggleableCategory, boolean>;
+  sound: boolean;
+  quietHours: QuietHours;
+}
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  matchDelivery: "instant",
+  categories: {matches: true, messages: true, followers: true, orders: true},
+  sound: true,
+  quietHours: {
+    enabled: false,
+    start: "22:00",
+    end: "07:00",
+    timeZone: "America/New_York",
+  },
+};
+
+const HHMM = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * users/{uid}/settings/notifications
+ * @param {string} uid
+ * @return {DocumentReference}
+ */
+export function notificationSettingsRef(uid: string) {
+  return db
+    .collection("users")
+    .doc(uid)
+    .collection("settings")
+    .doc("notifications");
+}
+
+/**
+ * True for an IANA time zone Intl understands.
+ * @param {*} tz
+ * @return {boolean}
+ */
+function isTimeZone(tz: unknown): tz is string {
+  if (typeof tz !== "string" || !tz) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", {timeZone: tz});
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Settings from a stored document, with defaults for anything missing
+ * or invalid.
+ * @param {DocumentData=} d
+ * @return {NotificationSettings}
+ */
+export function parseNotificationSettings(
+  d: FirebaseFirestore.DocumentData | undefined
+): NotificationSettings {
+  const data = d || {};
+  const defaults = DEFAULT_NOTIFICATION_SETTINGS;
+  const matchDelivery = MATCH_DELIVERY_MODES.includes(data["matchDelivery"]) ?
+    (data["matchDelivery"] as MatchDelivery) :
+    defaults.matchDelivery;
+
+  const rawCategories = (data["categories"] ?? {}) as Record<string, unknown>;
+  const categories = {...defaults.categories};
+  TOGGLEABLE_CATEGORIES.forEach((c) => {
+    if (typeof rawCategories[c] === "boolean") {
+      categories[c] = rawCategories[c] as boolean;
+    }
+  });
+
+  const q = (data["quietHours"] ?? {}) as Record<string, unknown>;
+  const quietHours: QuietHours = {
+    enabled:
+      typeof q["enabled"] === "boolean" ?
+        q["enabled"] :
+        defaults.quietHours.enabled,
+    start:
+      typeof q["start"] === "string" && HHMM.test(q["start"]) ?
+        q["start"] :
+        defaults.quietHours.start,
+    end:
+      typeof q["end"] === "string" && HHMM.test(q["end"]) ?
+        q["end"] :
+        defaults.quietHours.end,
+    timeZone: isTimeZone(q["timeZone"]) ?
+      q["timeZone"] :
+      defaults.quietHours.timeZone,
+  };
+
+  return {
+    matchDelivery,
+    categories,
+    sound: typeof data["sound"] === "boolean" ? data["sound"] : defaults.sound,
+    quietHours,
+  };
+}
+
+/**
+ * Read and parse a user's notification settings.
+ * @param {string} uid
+ * @return {Promise<NotificationSettings>}
+ */
+export async function loadNotificationSettings(
+  uid: string
+): Promise<NotificationSettings> {
+  const snap = await notificationSettingsRef(uid).get();
+  return parseNotificationSettings(snap.data());
+}
+
+/**
+ * Account notifications cannot be turned off.
+ * @param {NotificationSettings} settings
+ * @param {NotificationCategory} category
+ * @return {boolean}
+ */
+export function isCategoryEnabled(
+  settings: NotificationSettings,
+  category: NotificationCategory
+): boolean {
+  return category === "account" || settings.categories[category];
+}
+
+/**
+ * Minutes since midnight for an HH:mm string.
+ * @param {string} hhmm
+ * @return {number}
+ */
+function minutesOf(hhmm: string): number {
+  const [h, m] = hhmm.split(":").map(Number);
+  return (h ?? 0) * 60 + (m ?? 0);
+}
+
+/**
+ * Minutes since local midnight in `timeZone`.
+ * @param {string} timeZone
+ * @param {Date} now
+ * @return {number}
+ */
+export function localMinutes(timeZone: string, now: Date): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(now);
+  return (
+    Number(parts.find((p) => p.type === "hour")?.value ?? 0) * 60 +
+    Number(parts.find((p) => p.type === "minute")?.value ?? 0)
+  );
+}
+
+/**
+ * When `now` falls inside the user's quiet hours, the instant they end;
+ * otherwise null. Windows may wrap midnight (22:00–07:00).
+ * @param {NotificationSettings} settings
+ * @param {Date} now
+ * @return {Date|null}
+ */
+export function quietHoursEnd(
+  settings: NotificationSettings,
+  now: Date
+): Date | null {
+  const {enabled, start, end, timeZone} = settings.quietHours;
+  if (!enabled || start === end) return null;
+
+  const local = localMinutes(timeZone, now);
+  const s = minutesOf(start);
+  const e = minutesOf(end);
+  const inside = s < e ? local >= s && local < e : local >= s || local < e;
+  if (!inside) return null;
+
+  const untilEnd = (e - local + 1440) % 1440;
+  const at = new Date(now.getTime() + untilEnd * 60 * 1000);
+  at.setUTCSeconds(0, 0);
+  return at;
+}
+
+/**
+ * getNotificationSettings
+ * Returns the caller's notification settings with defaults filled in.
+ */
+export const getNotificationSettings = onCall(
+  {region: "us-central1"},
+  async (req) => {
+    if (!req.auth?.uid) {
+      throw new HttpsError("unauthenticated", "Auth required.");
+    }
+    return {ok: true, settings: await loadNotificationSettings(req.auth.uid)};
+  }
+);
+
+/**
+ * updateNotificationSettings
+ * Partial update: { matchDelivery?, categories?: { matches?, ... }, sound?,
+ * quietHours?: { ... } }. Returns the resulting settings.
+ */
+export const updateNotificationSettings = onCall(
+  {region: "us-central1"},
+  async (req) => {
+    if (!req.auth?.uid) {
+      throw new HttpsError("unauthenticated", "Auth required.");
+    }
+    const uid = req.auth.uid;
+    const input = (req.data ?? {}) as Record<string, unknown>;
+    const update: Record<string, unknown> = {};
+
+    if (input["matchDelivery"] !== undefined) {
+      if (
+        !MATCH_DELIVERY_MODES.includes(input["matchDelivery"] as MatchDelivery)
+      ) {
+        throw new HttpsError(
+          "invalid-argument",
+          `matchDelivery must be one of ${MATCH_DELIVERY_MODES.join(", ")}.`
+        );
+      }
+      update["matchDelivery"] = input["matchDelivery"];
+    }
+
+    if (input["categories"] !== undefined) {
+      const categories = input["categories"] as Record<string, unknown> | null;
+      if (!categories || typeof categories !== "object") {
+        throw new HttpsError(
+          "invalid-argument",
+          "categories must be an object."
+        );
+      }
+      for (const [key, value] of Object.entries(categories)) {
+        if (
+          !TOGGLEABLE_CATEGORIES.includes(key as ToggleableCategory) ||
+          typeof value !== "boolean"
+        ) {
+          throw new HttpsError(
+            "invalid-argument",
+            `categories.${key} must be a boolean for one of ` +
+              `${TOGGLEABLE_CATEGORIES.join(", ")}.`
+          );
+        }
+        update[`categories.${key}`] = value;
+      }
+    }
+
+    if (input["sound"] !== undefined) {
+      if (typeof input["sound"] !== "boolean") {
+        throw new HttpsError("invalid-argument", "sound must be a boolean.");
+      }
+      update["sound"] = input["sound"];
+    }
+
+    if (input["quietHours"] !== undefined) {
+      const q = input["quietHours"] as Record<string, unknown> | null;
+      if (!q || typeof q !== "object") {
+        throw new HttpsError(
+          "invalid-argument",
+          "quietHours must be an object."
+        );
+      }
+      if (q["enabled"] !== undefined) {
+        if (typeof q["enabled"] !== "boolean") {
+          throw new HttpsError(
+            "invalid-argument",
+            "quietHours.enabled must be a boolean."
+          );
+        }
+        update["quietHours.enabled"] = q["enabled"];
+      }
+      for (const key of ["start", "end"]) {
+        if (q[key] === undefined) continue;
+        if (typeof q[key] !== "string" || !HHMM.test(q[key] as string)) {
+          throw new HttpsError(
+            "invalid-argument",
+            `quietHours.${key} must be HH:mm.`
+          );
+        }
+        update[`quietHours.${key}`] = q[key];
+      }
+      if (q["timeZone"] !== undefined) {
+        if (!isTimeZone(q["timeZone"])) {
+          throw new HttpsError(
+            "invalid-argument",
+            "quietHours.timeZone must be an IANA time zone."
+          );
+        }
+        update["quietHours.timeZone"] = q["timeZone"];
+      }
+    }
+
+    if (!Object.keys(update).length) {
+      throw new HttpsError("failed-precondition", "Nothing to update.");
+    }
+
+    const ref = notificationSettingsRef(uid);
+    const current = await ref.get();
+    update["updatedAt"] = admin.firestore.FieldValue.serverTimestamp();
+
+    // A new digest window starts at the switch: matches already pushed one by
+    // one aren't repeated, and a stale window doesn't carry over into instant
+    // mode
+    const prevDelivery = parseNotificationSettings(
+      current.data()
+    ).matchDelivery;
+    if (
+      update["matchDelivery"] !== undefined &&
+      update["matchDelivery"] !== prevDelivery
+    ) {
+      if (update["matchDelivery"] === "instant") {
+        update["matchDigestSentAt"] = admin.firestore.FieldValue.delete();
+      } else if (prevDelivery === "instant") {
+        update["matchDigestSentAt"] =
+          admin.firestore.FieldValue.serverTimestamp();
+      }
+    }
+
+    // update() understands dotted paths; create the doc first for new users
+    if (!current.exists) {
+      await ref.set({createdAt: admin.firestore.FieldValue.serverTimestamp()});
+    }
+    await ref.update(update);
+
+    console.log("[NOTIF] settings:updated", {uid, fields: Object.keys(update)});
+    return {ok: true, settings: await loadNotificationSettings(uid)};
+  }
+);
@@ -1,7 +1,19 @@
 // functions/src/notifications.ts
-import { onCall, HttpsError } from "firebase-functions/v2/https";
-import { onDocumentCreated } from "firebase-functions/v2/firestore";
+import {onCall, HttpsError} from "firebase-functions/v2/https";
+import {onDocumentCreated} from "firebase-functions/v2/firestore";
+import {onSchedule} from "firebase-functions/v2/scheduler";
 import * as admin from "firebase-admin";
+import {refreshBadge} from "./badges";
+import {AppConstants} from "./constants";
+import {
+  MatchDelivery,
+  NotificationCategory,
+  isCategoryEnabled,
+  loadNotificationSettings,
+  localMinutes,
+  parseNotificationSettings,
+  quietHoursEnd,
+} from "./notificationSettings";
 
 // Ensure Admin SDK is initialized even when this module is imported directly
 if (admin.apps.length === 0) {
@@ -73,6 +85,7 @@ export const saveFcmToken = onCall({ region: "us-central1" }, async (req) => {
  * Collect all known FCM tokens for a user from:
  *  - users/{uid}/fcmTokens subcollection (active !== false)
  *  - users/{uid} doc fields: fcmToken (string), fcmTokens (array), messagingTokens (array)
+ * @param {string} uid
  */
 async function getAllUserFcmTokens(uid: string): Promise<string[]> {
   const tokens: string[] = [];
@@ -124,155 +137,572 @@ async function getAllUserFcmTokens(uid: string): Promise<string[]> {
   return deduped;
 }
 
+export interface UserPush {
+  // Settings category the user can toggle (see notificationSettings.ts)
+  category: NotificationCategory;
+  title: string;
+  body: string;
+  // FCM data payload; must include `type` and a `deeplink` the app can open
+  data: Record<string, string>;
+  imageUrl?: string | undefined;
+  analyticsLabel: string;
+}
+
+/**
+ * Quiet-hour pushes collapse into one users/{uid}/deferredPushes doc per key,
+ * holding the latest push and how many pushes it stands for: one per
+ * conversation, one for all matches, one per listing for anything else.
+ * @param {UserPush} push
+ * @return {string}
+ */
+function deferredPushKey(push: UserPush): string {
+  const type = push.data["type"] || "push";
+  if (type === "match" || type === "match_digest") return "matches";
+  const id = push.data["conversationId"] || push.data["listingId"] || "all";
+  return `${type}_${id}`;
+}
+
+/**
+ * The push flushDeferredPushes sends for a collapsed doc standing for `count`
+ * pushes.
+ * @param {UserPush} push
+ * @param {number} count
+ * @return {UserPush}
+ */
+function deferredSummary(push: UserPush, count: number): UserPush {
+  if (count <= 1) return push;
+  const type = push.data["type"];
+  if (type === "message") {
+    return {...push, body: `${count} new messages`};
+  }
+  if (type === "match" || type === "match_digest") {
+    return {
+      category: "matches",
+      title: `${count} new matches`,
+      body: "Open your inbox to see them.",
+      analyticsLabel: "match_digest",
+      data: {
+        type: "match_digest",
+        count: String(count),
+        deeplink: "vestivia://inbox",
+      },
+    };
+  }
+  return push;
+}
+
+/**
+ * Send one push to every device of a user and prune tokens FCM reports as
+ * unregistered. Returns the number of devices that accepted the message.
+ *
+ * Every notification path goes through here: pushes in a category the user
+ * switched off are dropped, and pushes during quiet hours are parked in
+ * users/{uid}/deferredPushes until flushDeferredPushes sends them (collapsed,
+ * see deferredPushKey).
+ * @param {string} uid
+ * @param {UserPush} push
+ */
+export async function sendUserPush(
+  uid: string,
+  push: UserPush
+): Promise<number> {
+  const settings = await loadNotificationSettings(uid);
+  if (!isCategoryEnabled(settings, push.category)) {
+    console.log("[NOTIF] push:muted", {
+      uid,
+      type: push.data["type"],
+      category: push.category,
+    });
+    return 0;
+  }
+  const deliverAt = quietHoursEnd(settings, new Date());
+  if (deliverAt) {
+    const count =
+      push.data["type"] === "match_digest" ?
+        Number(push.data["count"]) || 1 :
+        1;
+    await db
+      .collection("users")
+      .doc(uid)
+      .collection("deferredPushes")
+      .doc(deferredPushKey(push))
+      .set(
+        {
+          push: JSON.parse(JSON.stringify(push)),
+          count: admin.firestore.FieldValue.increment(count),
+          deliverAt: admin.firestore.Timestamp.fromDate(deliverAt),
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        },
+        // `push` is replaced whole so nothing of an earlier push survives into
+        // the collapsed one
+        {mergeFields: ["push", "count", "deliverAt", "updatedAt"]}
+      );
+    console.log("[NOTIF] push:deferred", {
+      uid,
+      type: push.data["type"],
+      deliverAt: deliverAt.toISOString(),
+    });
+    return 0;
+  }
+
+  const tokens = await getAllUserFcmTokens(uid);
+  if (!tokens.length) {
+    console.log("[NOTIF] tokens:none – skipping push", {
+      uid,
+      type: push.data["type"],
+    });
+    return 0;
+  }
+
+  // Unified badge (badges.ts); a failed recount must not block the push
+  const badge = await refreshBadge(uid).then(
+    (counts) => counts.total,
+    (err) => {
+      console.warn("[NOTIF] badge:fail", {
+        uid,
+        error: String(err?.message || err),
+      });
+      return undefined;
+    }
+  );
+
+  const {title, body, imageUrl} = push;
+
+  // Build notification object - only include imageUrl if defined
+  const notification: admin.messaging.Notification = {title, body};
+  if (imageUrl) {
+    notification.imageUrl = imageUrl;
+  }
+
+  // Build fcmOptions - only include imageUrl if defined
+  const apnsFcmOptions: admin.messaging.ApnsFcmOptions = {
+    analyticsLabel: push.analyticsLabel,
+  };
+  if (imageUrl) {
+    apnsFcmOptions.imageUrl = imageUrl;
+  }
+
+  const message: admin.messaging.MulticastMessage = {
+    tokens,
+    notification,
+    data:
+      badge !== undefined ? {...push.data, badge: String(badge)} : push.data,
+    android: {priority: "high"},
+    apns: {
+      payload: {
+        aps: {
+          alert: {title, body},
+          ...(settings.sound ? {sound: "default"} : {}),
+          ...(badge !== undefined ? {badge} : {}),
+        },
+      },
+      fcmOptions: apnsFcmOptions,
+    },
+  };
+
+  console.log("[NOTIF] push:send:start", {
+    uid,
+    type: push.data["type"],
+    tokensTried: tokens.length,
+  });
+  const res = await admin.messaging().sendEachForMulticast(message);
+  console.log("[NOTIF] push:send:done", {
+    uid,
+    type: push.data["type"],
+    tokensTried: tokens.length,
+    successCount: res.successCount,
+    failureCount: res.failureCount,
+  });
+
+  // Remove invalid tokens
+  const invalid: string[] = [];
+  res.responses.forEach((r, i) => {
+    if (!r.success) {
+      const code = r.error?.code || "";
+      const msg = r.error?.message || "";
+      const isInvalid =
+        code.includes("registration-token-not-registered") ||
+        code.includes("messaging/registration-token-not-registered") ||
+        msg.toLowerCase().includes("unregistered") ||
+        msg.toLowerCase().includes("not registered");
+
+      const token = tokens[i];
+      if (isInvalid && token) invalid.push(token);
+
+      console.log("[NOTIF] push:send:error", {
+        idx: i,
+        code,
+        message: msg,
+        token: token ? token.slice(0, 12) + "…" : "unknown",
+      });
+    }
+  });
+
+  if (invalid.length) {
+    // Split into chunks of 500 (Firestore batch limit)
+    const BATCH_SIZE = 500;
+    const chunks: string[][] = [];
+
+    for (let i = 0; i < invalid.length; i += BATCH_SIZE) {
+      chunks.push(invalid.slice(i, i + BATCH_SIZE));
+    }
+
+    // Process each chunk in parallel
+    await Promise.all(
+      chunks.map(async (chunk) => {
+        const batch = db.batch();
+        chunk.forEach((t) => {
+          batch.delete(
+            db.collection("users").doc(uid).collection("fcmTokens").doc(t)
+          );
+        });
+        await batch.commit();
+      })
+    );
+
+    console.log("[NOTIF] tokens:pruned", {
+      count: invalid.length,
+      batches: chunks.length,
+    });
+  }
+
+  return res.successCount;
+}
+
 /**
  * onMatchInboxNotify
  * Fires when a new match inbox doc is created:
  *   users/{uid}/matchInbox/{listingId}
- * Includes a deep link in the payload (data.deeplink) so the app can open the listing.
+ * Includes a deep link in the payload (data.deeplink) so the app can open the
+ * listing. Users on hourly / daily match delivery are skipped here;
+ * sendMatchDigests covers them.
  */
 export const onMatchInboxNotify = onDocumentCreated(
-  { region: "us-central1", document: "users/{uid}/matchInbox/{listingId}" },
+  {region: "us-central1", document: "users/{uid}/matchInbox/{listingId}"},
   async (event) => {
     const uid = event.params.uid as string;
     const listingId = event.params.listingId as string;
 
     const snap = event.data;
     if (!snap) {
-      console.log("[NOTIF] no event data; exiting", { uid, listingId });
+      console.log("[NOTIF] no event data; exiting", {uid, listingId});
       return;
     }
 
     const data = snap.data() || {};
-    console.log("[NOTIF] inbox:created", { uid, listingId, dataKeys: Object.keys(data) });
-
-    // Collect tokens from all supported locations
-    const tokens = await getAllUserFcmTokens(uid);
-
-    if (!tokens.length) {
-      console.log("[NOTIF] tokens:none – skipping push", { uid, listingId });
+    console.log("[NOTIF] inbox:created", {
+      uid,
+      listingId,
+      dataKeys: Object.keys(data),
+    });
+
+    const settings = await loadNotificationSettings(uid);
+    if (settings.matchDelivery !== "instant") {
+      console.log("[NOTIF] inbox:deferred to digest", {
+        uid,
+        listingId,
+        matchDelivery: settings.matchDelivery,
+      });
       return;
     }
 
-    const brandLower: string = String(data["brandLower"] ?? "");
+    const brandLower = String(data["brandLower"] ?? "");
     const score: number | null =
       typeof data["score"] === "number" ? (data["score"] as number) : null;
 
+    // Listing preview fields are resolved by the matching engine (may be
+    // absent on older entries)
+    const listingTitle =
+      typeof data["listingTitle"] === "string" ?
+        data["listingTitle"].trim() :
+        "";
+    const listingSize =
+      typeof data["listingSize"] === "string" ? data["listingSize"].trim() : "";
+    const listingPrice =
+      typeof data["listingPrice"] === "string" ?
+        data["listingPrice"].trim().replace(/^\$/, "") :
+        "";
+
     const title = "We found a match!";
-    const body = brandLower
-      ? `New ${brandLower.toUpperCase()} listing matched your pattern`
-      : "A new listing matched your saved pattern.";
+    let body = brandLower ?
+      `New ${brandLower.toUpperCase()} listing matched your pattern` :
+      "A new listing matched your saved pattern.";
+    if (listingTitle) {
+      body = [
+        listingTitle,
+        listingSize ? `Size ${listingSize}` : "",
+        listingPrice ? `$${listingPrice}` : "",
+      ]
+        .filter(Boolean)
+        .join(" · ");
+    }
 
     // Deep link your iOS app can handle (adjust scheme/host to your app)
     const deeplink = `vestivia://listing/${encodeURIComponent(listingId)}`;
 
     // Optional image to show in the notification (if client supports it)
     const imageUrl: string | undefined =
-      typeof data["primaryImageUrl"] === "string" && data["primaryImageUrl"]
-        ? String(data["primaryImageUrl"])
-        : undefined;
-
-    // Build notification object - only include imageUrl if defined
-    const notification: admin.messaging.Notification = { title, body };
-    if (imageUrl) {
-      notification.imageUrl = imageUrl;
-    }
-
-    // Build fcmOptions - only include imageUrl if defined
-    const apnsFcmOptions: admin.messaging.ApnsFcmOptions = {
-      analyticsLabel: "match_inbox",
-    };
-    if (imageUrl) {
-      apnsFcmOptions.imageUrl = imageUrl;
-    }
-
-    const message: admin.messaging.MulticastMessage = {
-      tokens,
-      notification,
-      data: {
-        type: "match",
-        listingId: String(data["listingId"] ?? listingId ?? ""),
-        brandLower: brandLower,
-        score: score != null ? String(score) : "",
-        deeplink,
-      },
-      android: { priority: "high" },
-      apns: {
-        payload: {
-          aps: {
-            alert: { title, body },
-            sound: "default",
-            badge: 1,
-          },
-        },
-        fcmOptions: apnsFcmOptions,
-      },
-    };
+      typeof data["primaryImageUrl"] === "string" && data["primaryImageUrl"] ?
+        String(data["primaryImageUrl"]) :
+        undefined;
 
     try {
-      console.log("[NOTIF] push:send:start", { uid, listingId, tokensTried: tokens.length });
-      const res = await admin.messaging().sendEachForMulticast(message);
-      console.log("[NOTIF] push:send:done", {
+      await sendUserPush(uid, {
+        category: "matches",
+        title,
+        body,
+        imageUrl,
+        analyticsLabel: "match_inbox",
+        data: {
+          type: "match",
+          listingId: String(data["listingId"] ?? listingId ?? ""),
+          brandLower: brandLower,
+          score: score != null ? String(score) : "",
+          deeplink,
+        },
+      });
+    } catch (err: any) {
+      console.error("[NOTIF] push:send:fatal", {
         uid,
         listingId,
-        tokensTried: tokens.length,
-        successCount: res.successCount,
-        failureCount: res.failureCount,
+        error: String(err?.message || err),
       });
+    }
+  }
+);
 
-      // Remove invalid tokens
-      const invalid: string[] = [];
-      res.responses.forEach((r, i) => {
-        if (!r.success) {
-          const code = r.error?.code || "";
-          const msg = r.error?.message || "";
-          const isInvalid =
-            code.includes("registration-token-not-registered") ||
-            code.includes("messaging/registration-token-not-registered") ||
-            msg.toLowerCase().includes("unregistered") ||
-            msg.toLowerCase().includes("not registered");
-
-          const token = tokens[i];
-          if (isInvalid && token) invalid.push(token);
-
-          console.log("[NOTIF] push:send:error", {
-            idx: i,
-            code,
-            message: msg,
-            token: token ? token.slice(0, 12) + "…" : "unknown",
-          });
-        }
-      });
+/**
+ * Build and send one digest push for a user: unseen matchInbox entries created
+ * since the previous digest (or the last window), grouped by brand. Advances
+ * matchDigestSentAt even when nothing was sent so the next window starts here
+ * (except for hourly digests skipped during quiet hours).
+ * @param {QueryDocumentSnapshot} settings
+ * @param {string} uid
+ * @param {MatchDelivery} mode
+ * @param {Date} now
+ */
+async function sendMatchDigest(
+  settings: FirebaseFirestore.QueryDocumentSnapshot,
+  uid: string,
+  mode: MatchDelivery,
+  now: Date
+): Promise<number> {
+  const {MAX_BRANDS_IN_BODY, MAX_ITEMS} = AppConstants.MATCH_DIGEST;
+  // Hourly digests wait out quiet hours instead of piling up; the window keeps
+  // growing
+  if (
+    mode === "hourly" &&
+    quietHoursEnd(parseNotificationSettings(settings.data()), now)
+  ) {
+    console.log("[NOTIF] digest:quiet hours", {uid});
+    return 0;
+  }
+  const windowMs = (mode === "daily" ? 24 : 1) * 60 * 60 * 1000;
+  const lastSent = settings.get("matchDigestSentAt");
+  const since =
+    lastSent instanceof admin.firestore.Timestamp ?
+      lastSent.toDate() :
+      new Date(now.getTime() - windowMs);
+
+  const snap = await db
+    .collection("users")
+    .doc(uid)
+    .collection("matchInbox")
+    .where("seen", "==", false)
+    .where("createdAt", ">", admin.firestore.Timestamp.fromDate(since))
+    .where("createdAt", "<=", admin.firestore.Timestamp.fromDate(now))
+    .orderBy("createdAt", "desc")
+    .limit(MAX_ITEMS)
+    .get();
+
+  let delivered = 0;
+  if (!snap.empty) {
+    const byBrand = new Map<string, number>();
+    snap.docs.forEach((d) => {
+      const brand = String(d.get("brandLower") ?? "");
+      byBrand.set(brand, (byBrand.get(brand) ?? 0) + 1);
+    });
+    const brands = Array.from(byBrand.entries()).sort((a, b) => b[1] - a[1]);
+    const shown = brands
+      .slice(0, MAX_BRANDS_IN_BODY)
+      .map(([brand, n]) => `${n} ${brand ? brand.toUpperCase() : "other"}`);
+    const more = brands.length - MAX_BRANDS_IN_BODY;
+    if (more > 0) shown.push(`+${more} more brand${more === 1 ? "" : "s"}`);
+
+    const count = snap.size;
+    delivered = await sendUserPush(uid, {
+      category: "matches",
+      title:
+        `${count}${count === MAX_ITEMS ? "+" : ""} ` +
+        `new match${count === 1 ? "" : "es"}`,
+      body: shown.join(" · "),
+      analyticsLabel: "match_digest",
+      data: {
+        type: "match_digest",
+        count: String(count),
+        brands: brands.map(([brand]) => brand).join(","),
+        deeplink: "vestivia://inbox",
+      },
+    });
+  }
 
-      if (invalid.length) {
-        // Split into chunks of 500 (Firestore batch limit)
-        const BATCH_SIZE = 500;
-        const chunks: string[][] = [];
+  await settings.ref.set(
+    {matchDigestSentAt: admin.firestore.Timestamp.fromDate(now)},
+    {merge: true}
+  );
+  console.log("[NOTIF] digest:done", {
+    uid,
+    mode,
+    matches: snap.size,
+    delivered,
+  });
+  return snap.size;
+}
 
-        for (let i = 0; i < invalid.length; i += BATCH_SIZE) {
-          chunks.push(invalid.slice(i, i + BATCH_SIZE));
-        }
+/**
+ * Daily digest due: DAILY_LOCAL_HOUR in the user's time zone, at most once per
+ * MIN_DAILY_GAP_HOURS.
+ * @param {QueryDocumentSnapshot} settings
+ * @param {Date} now
+ * @return {boolean}
+ */
+function dailyDigestDue(
+  settings: FirebaseFirestore.QueryDocumentSnapshot,
+  now: Date
+): boolean {
+  const {DAILY_LOCAL_HOUR, MIN_DAILY_GAP_HOURS} = AppConstants.MATCH_DIGEST;
+  const {timeZone} = parseNotificationSettings(settings.data()).quietHours;
+  if (Math.floor(localMinutes(timeZone, now) / 60) !== DAILY_LOCAL_HOUR) {
+    return false;
+  }
+  const lastSent = settings.get("matchDigestSentAt");
+  return (
+    !(lastSent instanceof admin.firestore.Timestamp) ||
+    now.getTime() - lastSent.toMillis() >= MIN_DAILY_GAP_HOURS * 60 * 60 * 1000
+  );
+}
 
-        // Process each chunk in parallel
-        await Promise.all(
-          chunks.map(async (chunk) => {
-            const batch = db.batch();
-            chunk.forEach((t) => {
-              batch.delete(
-                db.collection("users").doc(uid).collection("fcmTokens").doc(t)
-              );
+/**
+ * sendMatchDigests
+ * Hourly: one grouped push per user on "hourly" match delivery, and for users
+ * on "daily" whose local time is MATCH_DIGEST.DAILY_LOCAL_HOUR.
+ * Settings live at users/{uid}/settings/notifications (see
+ * notificationSettings.ts).
+ */
+export const sendMatchDigests = onSchedule(
+  {region: "us-central1", schedule: "0 * * * *", timeoutSeconds: 540},
+  async () => {
+    const now = new Date();
+    const modes: MatchDelivery[] = ["hourly", "daily"];
+    const PAGE = 200;
+
+    for (const mode of modes) {
+      let users = 0;
+      let last: FirebaseFirestore.QueryDocumentSnapshot | null = null;
+      for (;;) {
+        let q = db
+          .collectionGroup("settings")
+          .where("matchDelivery", "==", mode)
+          .limit(PAGE);
+        if (last) q = q.startAfter(last);
+        const snap = await q.get();
+
+        for (const doc of snap.docs) {
+          const uid = doc.ref.parent.parent?.id;
+          if (doc.id !== "notifications" || !uid) continue;
+          if (mode === "daily" && !dailyDigestDue(doc, now)) continue;
+          try {
+            await sendMatchDigest(doc, uid, mode, now);
+            users++;
+          } catch (err) {
+            console.error("[NOTIF] digest:fail", {
+              uid,
+              mode,
+              error: String(err),
             });
-            await batch.commit();
-          })
-        );
+          }
+        }
 
-        console.log("[NOTIF] tokens:pruned", { count: invalid.length, batches: chunks.length });
+        if (snap.size < PAGE) break;
+        last = snap.docs[snap.docs.length - 1] ?? null;
+      }
+      console.log("[NOTIF] digest:run", {mode, users});
+    }
+  }
+);
+
+/**
+ * Remove a flushed deferredPushes doc, unless pushes were deferred onto it
+ * after it was read: then only the `count` already sent is taken off.
+ * @param {QueryDocumentSnapshot} doc
+ * @param {number} count
+ */
+async function clearDeferredPush(
+  doc: FirebaseFirestore.QueryDocumentSnapshot,
+  count: number
+) {
+  await db.runTransaction(async (tx) => {
+    const fresh = await tx.get(doc.ref);
+    if (!fresh.exists) return;
+    const left =
+      (typeof fresh.get("count") === "number" ?
+        (fresh.get("count") as number) :
+        1) - count;
+    const unchanged = fresh.updateTime?.isEqual(doc.updateTime) ?? false;
+    if (unchanged || left <= 0) tx.delete(doc.ref);
+    else tx.update(doc.ref, {count: left});
+  });
+}
+
+/**
+ * flushDeferredPushes
+ * Sends pushes parked during quiet hours once their deliverAt has passed, one
+ * summary per collapsed doc ("3 new messages", "5 new matches").
+ * Settings are re-checked on send (a category may have been muted meanwhile).
+ * A doc is removed only after its push went out, so a failed send is retried
+ * on the next run.
+ */
+export const flushDeferredPushes = onSchedule(
+  {region: "us-central1", schedule: "*/15 * * * *", timeoutSeconds: 300},
+  async () => {
+    const snap = await db
+      .collectionGroup("deferredPushes")
+      .where("deliverAt", "<=", admin.firestore.Timestamp.now())
+      .orderBy("deliverAt")
+      .limit(500)
+      .get();
+
+    let sent = 0;
+    for (const doc of snap.docs) {
+      const uid = doc.ref.parent.parent?.id;
+      const push = doc.get("push") as UserPush | undefined;
+      const count =
+        typeof doc.get("count") === "number" ? (doc.get("count") as number) : 1;
+      try {
+        if (!uid || !push) {
+          await doc.ref.delete();
+          continue;
+        }
+        // Single match pushes from before a switch to hourly / daily: the next
+        // digest covers them
+        if (
+          push.data["type"] === "match" &&
+          (await loadNotificationSettings(uid)).matchDelivery !== "instant"
+        ) {
+          console.log("[NOTIF] deferred:dropped – digest covers", {uid, count});
+        } else {
+          sent +=
+            (await sendUserPush(uid, deferredSummary(push, count))) > 0 ? 1 : 0;
+        }
+        await clearDeferredPush(doc, count);
+      } catch (err) {
+        console.error("[NOTIF] deferred:fail", {
+          uid,
+          id: doc.id,
+          error: String(err),
+        });
       }
-    } catch (err: any) {
-      console.error("[NOTIF] push:send:fatal", {
-        uid,
-        listingId,
-        error: String(err?.message || err),
-      });
     }
+    console.log("[NOTIF] deferred:flush", {due: snap.size, sent});
   }
-);
\ No newline at end of file
+);
@@ -0,0 +1,256 @@
+// functions/src/patternSearches.ts
+import {onCall, HttpsError} from "firebase-functions/v2/https";
+import {onSchedule} from "firebase-functions/v2/scheduler";
+import {onDocumentWritten} from "firebase-functions/v2/firestore";
+import * as admin from "firebase-admin";
+import {AppConstants} from "./constants";
+import {deleteHashIndexEntry} from "./matching/hashIndex";
+import {
+  relatedSearchPaths,
+  reserveSearchSlot,
+  searchQuotaRef,
+  searchesCollection,
+  setSearchState,
+} from "./matching/searchLifecycle";
+
+// Ensure Admin SDK is initialized even when this module is imported directly
+if (admin.apps.length === 0) {
+  admin.initializeApp();
+}
+
+const db = admin.firestore();
+const BUCKET = "vest-9495e.firebasestorage.app";
+
+/**
+ * Load the caller's search named by `searchId`, or throw.
+ * @param {string=} uid
+ * @param {*} data
+ * @return {Promise<Object>}
+ */
+async function loadOwnSearch(uid: string | undefined, data: unknown) {
+  if (!uid) {
+    throw new HttpsError("unauthenticated", "Auth required.");
+  }
+  const searchId = String(
+    (data as {searchId?: unknown} | undefined)?.searchId || ""
+  ).trim();
+  if (!searchId) {
+    throw new HttpsError("failed-precondition", "searchId is required.");
+  }
+  const snap = await searchesCollection(uid).doc(searchId).get();
+  if (!snap.exists) {
+    throw new HttpsError("not-found", "Search not found.");
+  }
+  return {uid, searchId, snap, data: snap.data() || {}};
+}
+
+/**
+ * pausePatternSearch
+ * Stops deliveries for users/{uid}/patternSearches/{searchId} without deleting
+ * it.
+ */
+export const pausePatternSearch = onCall(
+  {region: "us-central1"},
+  async (req) => {
+    const {uid, searchId, data} = await loadOwnSearch(req.auth?.uid, req.data);
+    await setSearchState(uid, searchId, data, false, "paused");
+    console.log("[PATTERN_SEARCH] paused", {uid, searchId});
+    return {ok: true, status: "paused"};
+  }
+);
+
+/**
+ * resumePatternSearch
+ * Reactivates a paused / expired search, subject to
+ * MAX_ACTIVE_PATTERN_SEARCHES.
+ * An optional `expiresAt` (ms since epoch, in the future) replaces the old
+ * expiry.
+ */
+export const resumePatternSearch = onCall(
+  {region: "us-central1"},
+  async (req) => {
+    const {uid, searchId, data} = await loadOwnSearch(req.auth?.uid, req.data);
+
+    const expiresAtMs = req.data?.expiresAt;
+    if (
+      expiresAtMs !== undefined &&
+      expiresAtMs !== null &&
+      (typeof expiresAtMs !== "number" || expiresAtMs <= Date.now())
+    ) {
+      throw new HttpsError(
+        "invalid-argument",
+        "expiresAt must be a future timestamp in milliseconds."
+      );
+    }
+    if (data["status"] === "rejected") {
+      throw new HttpsError(
+        "failed-precondition",
+        "This pattern image was rejected; upload a clearer photo instead."
+      );
+    }
+    const existingExpiry = data["expiresAt"];
+    if (
+      typeof expiresAtMs !== "number" &&
+      existingExpiry instanceof admin.firestore.Timestamp &&
+      existingExpiry.toMillis() <= Date.now()
+    ) {
+      throw new HttpsError(
+        "failed-precondition",
+        "Search has expired; pass a new expiresAt to resume it."
+      );
+    }
+
+    if (!(await reserveSearchSlot(uid, searchId))) {
+      throw new HttpsError(
+        "resource-exhausted",
+        "You can have at most " +
+          `${AppConstants.MAX_ACTIVE_PATTERN_SEARCHES} active pattern searches.`
+      );
+    }
+
+    await setSearchState(uid, searchId, data, true, "active");
+    if (typeof expiresAtMs === "number") {
+      await searchesCollection(uid)
+        .doc(searchId)
+        .set(
+          {expiresAt: admin.firestore.Timestamp.fromMillis(expiresAtMs)},
+          {merge: true}
+        );
+    }
+    console.log("[PATTERN_SEARCH] resumed", {
+      uid,
+      searchId,
+      expiresAt: expiresAtMs ?? null,
+    });
+    return {ok: true, status: "active"};
+  }
+);
+
+/**
+ * deletePatternSearch
+ * Deletes the search and everything hanging off it: its users_active_patterns/
+ * and pattern_queries/ images (and their hash index entries), the app's
+ * active_searches item and the matches_by_search audit. Inbox entries stay.
+ */
+export const deletePatternSearch = onCall(
+  {region: "us-central1"},
+  async (req) => {
+    const {uid, searchId, snap, data} = await loadOwnSearch(
+      req.auth?.uid,
+      req.data
+    );
+    const {imagePath, queryPath, brandLower, appSearchId} = relatedSearchPaths(
+      uid,
+      data
+    );
+
+    for (const path of [imagePath, queryPath]) {
+      if (!path) continue;
+      try {
+        await admin
+          .storage()
+          .bucket(BUCKET)
+          .file(path)
+          .delete({ignoreNotFound: true});
+      } catch (e) {
+        console.warn("[PATTERN_SEARCH] storage:delete:fail", {
+          path,
+          err: String(e),
+        });
+      }
+      if (brandLower) {
+        await deleteHashIndexEntry(brandLower, path);
+      }
+    }
+
+    await db.recursiveDelete(
+      db.collection("matches_by_search").doc(`${uid}_${searchId}`)
+    );
+    if (appSearchId) {
+      await db
+        .collection("active_searches")
+        .doc(uid)
+        .collection("items")
+        .doc(appSearchId)
+        .delete();
+    }
+    await snap.ref.delete();
+
+    console.log("[PATTERN_SEARCH] deleted", {
+      uid,
+      searchId,
+      imagePath,
+      queryPath,
+    });
+    return {ok: true};
+  }
+);
+
+// ───────── Scheduled: expire pattern searches ─────────
+/**
+ * Hourly job that deactivates active searches whose expiresAt has passed.
+ * Matchers already skip expired searches (isSearchLive); this keeps isActive,
+ * status and the active-search quota accurate.
+ */
+export const expirePatternSearches = onSchedule(
+  {
+    region: "us-central1",
+    schedule: "15 * * * *", // Every hour at :15
+    timeoutSeconds: 300,
+    memory: "256MiB",
+  },
+  async () => {
+    const now = admin.firestore.Timestamp.now();
+    let expired = 0;
+
+    // eslint-disable-next-line no-constant-condition
+    while (true) {
+      const snap = await db
+        .collectionGroup("patternSearches")
+        .where("isActive", "==", true)
+        .where("expiresAt", "<=", now)
+        .limit(200)
+        .get();
+      if (snap.empty) break;
+
+      for (const doc of snap.docs) {
+        const uid = doc.ref.parent.parent?.id;
+        if (!uid) continue;
+        await setSearchState(uid, doc.id, doc.data(), false, "expired");
+        expired++;
+      }
+      if (snap.size < 200) break;
+    }
+
+    console.log("[PATTERN_SEARCH] expire:done", {expired});
+  }
+);
+
+/**
+ * onPatternSearchQuotaSync
+ * Keeps users/{uid}/quotas/patternSearches in step with searches paused or
+ * deleted by the client (rules allow both without a callable). Re-reads the
+ * search so a late event can't undo a newer activation.
+ */
+export const onPatternSearchQuotaSync = onDocumentWritten(
+  {region: "us-central1", document: "users/{uid}/patternSearches/{searchId}"},
+  async (event) => {
+    const uid = event.params.uid as string;
+    const searchId = event.params.searchId as string;
+    // Only active → inactive / deleted matters
+    if (event.data?.before.get("isActive") !== true) return;
+
+    await db.runTransaction(async (tx) => {
+      const current = await tx.get(searchesCollection(uid).doc(searchId));
+      if (current.exists && current.get("isActive") === true) return;
+      tx.set(
+        searchQuotaRef(uid),
+        {
+          activeSearchIds: admin.firestore.FieldValue.arrayRemove(searchId),
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        },
+        {merge: true}
+      );
+    });
+  }
+);
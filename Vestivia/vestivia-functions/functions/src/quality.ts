@@ -0,0 +1,121 @@
+// quality.ts - Upload quality gate for pattern images (resolution, sharpness,
+// flat colour)
+import {AppConstants} from "./constants";
+
+export type QualityRejectReason = "too_small" | "too_blurry" | "mostly_blank";
+
+export interface QualityMetrics {
+  width: number;
+  height: number;
+  sharpness: number;
+  flatColorRatio: number;
+}
+
+export interface QualityResult {
+  status: "accepted" | "rejected";
+  reason: QualityRejectReason | null;
+  // null when Jimp cannot decode the image (e.g. webp); such uploads are
+  // accepted unscored
+  metrics: QualityMetrics | null;
+}
+
+type Bitmap = {width: number; height: number; data: Buffer};
+
+const SAMPLE_SIZE = 128;
+
+const round = (n: number, places = 3) =>
+  Math.round(n * 10 ** places) / 10 ** places;
+
+/**
+ * Variance of the 4-neighbour Laplacian over grayscale luminance; low variance
+ * = few edges = blur
+ * @param {Bitmap} bitmap
+ * @return {number}
+ */
+function laplacianVarianceOf(bitmap: Bitmap): number {
+  const {width, height, data} = bitmap;
+  const lum = new Float64Array(width * height);
+  for (let p = 0; p < lum.length; p++) {
+    lum[p] =
+      0.299 * (data[p * 4] ?? 0) +
+      0.587 * (data[p * 4 + 1] ?? 0) +
+      0.114 * (data[p * 4 + 2] ?? 0);
+  }
+
+  let sum = 0;
+  let sumSq = 0;
+  let n = 0;
+  const at = (j: number) => lum[j] ?? 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const lap =
+        at(i - 1) + at(i + 1) + at(i - width) + at(i + width) - 4 * at(i);
+      sum += lap;
+      sumSq += lap * lap;
+      n++;
+    }
+  }
+  if (!n) return 0;
+  const mean = sum / n;
+  return sumSq / n - mean * mean;
+}
+
+/**
+ * Share of pixels falling in the most common 8×8×8 RGB bucket (blank walls,
+ * plain backgrounds)
+ * @param {Bitmap} bitmap
+ * @return {number}
+ */
+function flatColorRatioOf(bitmap: Bitmap): number {
+  const counts = new Map<number, number>();
+  const pixels = bitmap.width * bitmap.height;
+  let max = 0;
+  const level = (i: number) => (bitmap.data[i] ?? 0) >> 5;
+  for (let p = 0; p < pixels; p++) {
+    const key =
+      (level(p * 4) << 6) | (level(p * 4 + 1) << 3) | level(p * 4 + 2);
+    const c = (counts.get(key) ?? 0) + 1;
+    counts.set(key, c);
+    if (c > max) max = c;
+  }
+  return pixels ? max / pixels : 1;
+}
+
+/**
+ * Score a pattern upload against AppConstants.PATTERN_QUALITY.
+ * Checks run cheapest-first and the first failure is the reject reason.
+ * @param {Buffer|Uint8Array} buf
+ */
+export async function assessPatternQuality(
+  buf: Buffer | Uint8Array
+): Promise<QualityResult> {
+  const q = AppConstants.PATTERN_QUALITY;
+  let img;
+  try {
+    const {Jimp} = await import("jimp");
+    img = await Jimp.read(Buffer.isBuffer(buf) ? buf : Buffer.from(buf));
+  } catch (e) {
+    console.warn("[QUALITY] decode:fail – accepting unscored", {
+      err: String(e),
+    });
+    return {status: "accepted", reason: null, metrics: null};
+  }
+
+  const {width, height} = img.bitmap;
+  const sample = img.clone().resize({w: SAMPLE_SIZE, h: SAMPLE_SIZE}).bitmap;
+  const metrics: QualityMetrics = {
+    width,
+    height,
+    sharpness: round(laplacianVarianceOf(sample), 1),
+    flatColorRatio: round(flatColorRatioOf(sample)),
+  };
+
+  let reason: QualityRejectReason | null = null;
+  if (Math.min(width, height) < q.MIN_SIDE_PX) reason = "too_small";
+  else if (metrics.flatColorRatio > q.MAX_FLAT_COLOR_RATIO) {
+    reason = "mostly_blank";
+  } else if (metrics.sharpness < q.MIN_SHARPNESS) reason = "too_blurry";
+
+  return {status: reason ? "rejected" : "accepted", reason, metrics};
+}
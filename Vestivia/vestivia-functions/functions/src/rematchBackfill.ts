@@ -0,0 +1,203 @@
+// functions/src/rematchBackfill.ts
+import {onSchedule} from "firebase-functions/v2/scheduler";
+import {defineSecret} from "firebase-functions/params";
+import * as admin from "firebase-admin";
+import {
+  RematchFingerprint,
+  RematchJob,
+  advanceJob,
+  changedBrands,
+  currentFingerprint,
+  indexedBrands,
+  jobsCollection,
+  newJob,
+} from "./matching/rematch";
+
+// Ensure Admin SDK is initialized even when this module is imported directly
+if (admin.apps.length === 0) {
+  admin.initializeApp();
+}
+
+const db = admin.firestore();
+// Optional, for imagedelivery.net links
+const CF_ACCOUNT_HASH = defineSecret("CF_ACCOUNT_HASH");
+
+// Leave headroom under timeoutSeconds for the final checkpoint write
+const RUN_BUDGET_MS = 7 * 60 * 1000;
+const MAX_ATTEMPTS = 5;
+
+// Fingerprint every brand was last fully re-matched with: rematch_state/current
+const stateRef = () => db.collection("rematch_state").doc("current");
+
+/**
+ * Oldest pending/running job, filling in defaults for manually created docs.
+ */
+async function nextJob(): Promise<{
+  ref: FirebaseFirestore.DocumentReference;
+  job: RematchJob;
+} | null> {
+  const snap = await jobsCollection()
+    .where("status", "in", ["pending", "running"])
+    .orderBy("createdAt")
+    .limit(1)
+    .get();
+  const doc = snap.docs[0];
+  if (!doc) return null;
+
+  const data = doc.data() as Partial<RematchJob>;
+  if (data.fingerprint && data.brands) {
+    return {ref: doc.ref, job: data as RematchJob};
+  }
+
+  const brands =
+    Array.isArray(data.brands) && data.brands.length ?
+      data.brands :
+      await indexedBrands();
+  const job = newJob("manual", brands, await currentFingerprint(brands));
+  await doc.ref.set(
+    {...job, updatedAt: admin.firestore.FieldValue.serverTimestamp()},
+    {merge: true}
+  );
+  console.log("[REMATCH] manual:accepted", {
+    jobId: doc.id,
+    brands: brands.length,
+  });
+  return {ref: doc.ref, job};
+}
+
+/**
+ * Queue a job when the algorithm version changed or a brand threshold was
+ * raised.
+ */
+async function planJob(): Promise<{
+  ref: FirebaseFirestore.DocumentReference;
+  job: RematchJob;
+} | null> {
+  const brands = await indexedBrands();
+  const now = await currentFingerprint(brands);
+  const stateSnap = await stateRef().get();
+  const last = stateSnap.exists ?
+    (stateSnap.data() as RematchFingerprint) :
+    null;
+
+  const change = changedBrands(brands, now, last);
+  if (!change) return null;
+
+  const job = newJob(change.reason, change.brands, now);
+  const ref = jobsCollection().doc();
+  await ref.set({
+    ...job,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+  console.log("[REMATCH] planned", {
+    jobId: ref.id,
+    reason: change.reason,
+    brands: change.brands,
+  });
+  return {ref, job};
+}
+
+/**
+ * Record the thresholds (and algorithm version) a finished job re-matched with.
+ * @param {RematchJob} job
+ */
+async function markCovered(job: RematchJob): Promise<void> {
+  const thresholds: Record<string, number> = {};
+  for (const b of job.brands) {
+    const t = job.fingerprint.thresholds[b];
+    if (t !== undefined) thresholds[b] = t;
+  }
+  const fullRun = job.reason === "initial" || job.reason === "algorithm";
+  await stateRef().set(
+    {
+      ...(fullRun ? {algorithmVersion: job.fingerprint.algorithmVersion} : {}),
+      thresholds,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    },
+    {merge: true}
+  );
+}
+
+// ───────── Scheduled: resumable re-match backfill ─────────
+/**
+ * Runs every 15 minutes. Continues the oldest unfinished rematch_jobs doc (or
+ * plans one when matching inputs changed) chunk by chunk, checkpointing after
+ * each chunk, until the run budget is used up. The next run resumes from the
+ * checkpoint; a job that keeps failing is marked "failed" after MAX_ATTEMPTS.
+ */
+export const rematchBackfill = onSchedule(
+  {
+    region: "us-central1",
+    schedule: "*/15 * * * *",
+    timeoutSeconds: 540,
+    memory: "1GiB",
+    secrets: [CF_ACCOUNT_HASH],
+  },
+  async () => {
+    const started = Date.now();
+    const found = (await nextJob()) ?? (await planJob());
+    if (!found) {
+      console.log("[REMATCH] idle");
+      return;
+    }
+
+    const {ref} = found;
+    let job = found.job;
+    const imageAccountHash = CF_ACCOUNT_HASH.value() || null;
+    console.log("[REMATCH] resume", {
+      jobId: ref.id,
+      brandIndex: job.brandIndex,
+      phase: job.phase,
+      cursor: job.cursor,
+    });
+
+    while (job.status !== "done" && Date.now() - started < RUN_BUDGET_MS) {
+      try {
+        job = await advanceJob(job, imageAccountHash);
+        await ref.set(
+          {
+            ...job,
+            attempts: 0,
+            lastError: null,
+            updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+          },
+          {merge: true}
+        );
+      } catch (e) {
+        const attempts = ((await ref.get()).get("attempts") ?? 0) + 1;
+        const failed = attempts >= MAX_ATTEMPTS;
+        await ref.set(
+          {
+            attempts,
+            lastError: String(e),
+            ...(failed ? {status: "failed"} : {}),
+            updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+          },
+          {merge: true}
+        );
+        console.error("[REMATCH] chunk:fail", {
+          jobId: ref.id,
+          attempts,
+          failed,
+          err: String(e),
+        });
+        return;
+      }
+    }
+
+    if (job.status === "done") {
+      await ref.set(
+        {finishedAt: admin.firestore.FieldValue.serverTimestamp()},
+        {merge: true}
+      );
+      await markCovered(job);
+    }
+    console.log("[REMATCH] run:end", {
+      jobId: ref.id,
+      status: job.status,
+      stats: job.stats,
+      ms: Date.now() - started,
+    });
+  }
+);
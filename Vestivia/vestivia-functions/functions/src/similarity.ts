@@ -0,0 +1,201 @@
+// similarity.ts - Ensemble image similarity (pHash + dHash + colour histogram)
+import {AppConstants} from "./constants";
+import {hammingHex} from "./hashing";
+
+/**
+ * Extra per-image features stored next to the pHash in the hash index.
+ * pHash is grayscale, so two colourways of the same smocked print look
+ * identical to it; the hue/saturation histogram separates them and dHash
+ * adds a second, gradient-based view of structure.
+ */
+export interface SimilarityFeatures {
+  dhash: string;
+  colorHist: number[];
+}
+
+export interface MatchScore {
+  score: number;
+  phashDistance: number;
+  dhashDistance: number | null;
+  colorDistance: number | null;
+}
+
+const HASH_BITS = 64;
+
+/**
+ * Pack a list of bits into a hex string, four bits per digit.
+ * @param {Array<number>} bits
+ * @return {string}
+ */
+function toHex(bits: number[]): string {
+  let hex = "";
+  const bit = (i: number) => bits[i] ?? 0;
+  for (let i = 0; i < bits.length; i += 4) {
+    hex += (
+      (bit(i) << 3) |
+      (bit(i + 1) << 2) |
+      (bit(i + 2) << 1) |
+      bit(i + 3)
+    ).toString(16);
+  }
+  return hex;
+}
+
+type Bitmap = {width: number; height: number; data: Buffer};
+
+/**
+ * 64-bit difference hash: 9×8 grayscale, each bit = left pixel brighter than
+ * right
+ * @param {Bitmap} bitmap
+ * @return {string}
+ */
+function dHashOf(bitmap: Bitmap): string {
+  const bits: number[] = [];
+  const lum = (x: number, y: number) => {
+    const i = (y * bitmap.width + x) * 4;
+    return (
+      0.299 * (bitmap.data[i] ?? 0) +
+      0.587 * (bitmap.data[i + 1] ?? 0) +
+      0.114 * (bitmap.data[i + 2] ?? 0)
+    );
+  };
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) bits.push(lum(x, y) > lum(x + 1, y) ? 1 : 0);
+  }
+  return toHex(bits);
+}
+
+/**
+ * Normalized hue × saturation histogram. Near-gray pixels (low saturation
+ * or value) have no meaningful hue and are counted in a final achromatic bin.
+ * @param {Bitmap} bitmap
+ * @return {Array<number>}
+ */
+function colorHistogramOf(bitmap: Bitmap): number[] {
+  const hueBins = AppConstants.COLOR_HIST_HUE_BINS;
+  const satBins = AppConstants.COLOR_HIST_SAT_BINS;
+  const hist = new Array<number>(hueBins * satBins + 1).fill(0);
+  const pixels = bitmap.width * bitmap.height;
+
+  for (let p = 0; p < pixels; p++) {
+    const r = (bitmap.data[p * 4] ?? 0) / 255;
+    const g = (bitmap.data[p * 4 + 1] ?? 0) / 255;
+    const b = (bitmap.data[p * 4 + 2] ?? 0) / 255;
+    const max = Math.max(r, g, b);
+    const min = Math.min(r, g, b);
+    const delta = max - min;
+    const s = max === 0 ? 0 : delta / max;
+
+    if (s < 0.15 || max < 0.15) {
+      hist[hist.length - 1] = (hist[hist.length - 1] ?? 0) + 1;
+      continue;
+    }
+
+    let h: number;
+    if (max === r) h = ((g - b) / delta) % 6;
+    else if (max === g) h = (b - r) / delta + 2;
+    else h = (r - g) / delta + 4;
+    h = (h * 60 + 360) % 360;
+
+    const hb = Math.min(hueBins - 1, Math.floor((h / 360) * hueBins));
+    const sb = Math.min(satBins - 1, Math.floor(s * satBins));
+    const bin = hb * satBins + sb;
+    hist[bin] = (hist[bin] ?? 0) + 1;
+  }
+
+  return hist.map((c) => Math.round((c / Math.max(1, pixels)) * 1000) / 1000);
+}
+
+/**
+ * Compute dHash and colour histogram for an image buffer.
+ * Returns null when Jimp cannot decode the image (matchers then fall back to
+ * pHash only).
+ * @param {Buffer|Uint8Array} buf
+ */
+export async function computeSimilarityFeatures(
+  buf: Buffer | Uint8Array
+): Promise<SimilarityFeatures | null> {
+  try {
+    const {Jimp} = await import("jimp");
+    const img = await Jimp.read(Buffer.isBuffer(buf) ? buf : Buffer.from(buf));
+    const dhash = dHashOf(img.clone().resize({w: 9, h: 8}).bitmap);
+    const colorHist = colorHistogramOf(
+      img.clone().resize({w: 64, h: 64}).bitmap
+    );
+    return {dhash, colorHist};
+  } catch (e) {
+    console.warn("[SIMILARITY] features:fail", {err: String(e)});
+    return null;
+  }
+}
+
+/**
+ * 1 − histogram intersection, in [0, 1].
+ * @param {Array<number>} a
+ * @param {Array<number>} b
+ * @return {number}
+ */
+export function histogramDistance(a: number[], b: number[]): number {
+  if (!a.length || a.length !== b.length) return 1;
+  let inter = 0;
+  for (let i = 0; i < a.length; i++) inter += Math.min(a[i] ?? 0, b[i] ?? 0);
+  return Math.max(0, Math.min(1, 1 - inter));
+}
+
+/**
+ * Weighted ensemble score in [0, 1] for a candidate pair that already passed
+ * the pHash threshold. Weights come from AppConstants.SIMILARITY_WEIGHTS and
+ * are renormalized over the components available for both images.
+ * @param {number} phashDistance
+ * @param {Partial<SimilarityFeatures>|null=} a
+ * @param {Partial<SimilarityFeatures>|null=} b
+ * @return {MatchScore}
+ */
+export function scoreMatch(
+  phashDistance: number,
+  a?: Partial<SimilarityFeatures> | null,
+  b?: Partial<SimilarityFeatures> | null
+): MatchScore {
+  const w = AppConstants.SIMILARITY_WEIGHTS;
+
+  const dhashDistance =
+    a?.dhash && b?.dhash ? hammingHex(a.dhash, b.dhash) : null;
+  const colorDistance =
+    a?.colorHist && b?.colorHist ?
+      histogramDistance(a.colorHist, b.colorHist) :
+      null;
+
+  let total = w.PHASH;
+  let sum = w.PHASH * (1 - phashDistance / HASH_BITS);
+  if (dhashDistance !== null) {
+    total += w.DHASH;
+    sum += w.DHASH * (1 - dhashDistance / HASH_BITS);
+  }
+  if (colorDistance !== null) {
+    total += w.COLOR;
+    sum += w.COLOR * (1 - colorDistance);
+  }
+
+  const score = Math.round((total > 0 ? sum / total : 0) * 1000) / 1000;
+  return {score, phashDistance, dhashDistance, colorDistance};
+}
+
+/**
+ * Per-component distances stored on audit hits for debugging.
+ * @param {MatchScore} m
+ * @return {Object}
+ */
+export function matchComponents(m: MatchScore): {
+  phash: number;
+  dhash: number | null;
+  color: number | null;
+} {
+  return {
+    phash: m.phashDistance,
+    dhash: m.dhashDistance,
+    color:
+      m.colorDistance !== null ?
+        Math.round(m.colorDistance * 1000) / 1000 :
+        null,
+  };
+}
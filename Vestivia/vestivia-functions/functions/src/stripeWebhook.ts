@@ -1,7 +1,7 @@
-import { onRequest } from "firebase-functions/v2/https";
+import {onRequest} from "firebase-functions/v2/https";
 // functions/src/stripeWebhook.ts
 import Stripe from "stripe";
-import { defineSecret } from "firebase-functions/params";
+import {defineSecret} from "firebase-functions/params";
 import * as admin from "firebase-admin";
 
 // Ensure Admin SDK initialized once
@@ -11,16 +11,41 @@ const STRIPE_SECRET_KEY = defineSecret("STRIPE_SECRET_KEY");
 const STRIPE_WEBHOOK_SECRET = defineSecret("STRIPE_WEBHOOK_SECRET");
 const STRIPE_CLI_WEBHOOK_SECRET = defineSecret("STRIPE_CLI_WEBHOOK_SECRET");
 
-// Helper: mark listing sold in Firestore (idempotent)
-async function markListingSold(opts: {
-  listingId: string;
-  sellerId: string;
-  buyerId?: string;
-  paymentIntentId: string;
-  amount: number; // cents
-  currency: string;
-}) {
-  const { listingId, sellerId, buyerId, paymentIntentId, amount, currency } = opts;
+type SaleOutcome =
+  "created" | "duplicate" | "listing_unavailable" | "group_unavailable";
+
+/**
+ * Helper: mark listing(s) sold in Firestore (idempotent).
+ * A sibling-set group purchase (metadata.groupId) sells every member in one
+ * order or none: when a listing (or the group) is no longer available the
+ * payment is refunded instead. A single-listing sale that can't be fulfilled
+ * is only logged, as before. A group member selling on its own breaks its
+ * group.
+ * @param {Stripe} stripe
+ * @param {Object} opts
+ */
+async function markListingSold(
+  stripe: Stripe,
+  opts: {
+    listingIds: string[];
+    groupId?: string;
+    sellerId: string;
+    buyerId?: string;
+    paymentIntentId: string;
+    amount: number; // cents
+    currency: string;
+  }
+) {
+  const {
+    listingIds,
+    groupId,
+    sellerId,
+    buyerId,
+    paymentIntentId,
+    amount,
+    currency,
+  } = opts;
+  const listingId = listingIds[0] as string;
   const db = admin.firestore();
 
   // Use paymentIntentId as order document ID (natural deduplication)
@@ -29,52 +54,105 @@ async function markListingSold(opts: {
   // Check if we've already processed this payment (pre-transaction idempotency)
   const existingOrder = await orderRef.get();
   if (existingOrder.exists) {
-    console.log("[WEBHOOK] Already processed (idempotent)", { paymentIntentId });
+    console.log("[WEBHOOK] Already processed (idempotent)", {paymentIntentId});
     return;
   }
 
-  // Now proceed with transaction
-  await db.runTransaction(async (tx) => {
-    const listingSnap = await tx.get(
-      db.collection("users").doc(sellerId).collection("listings").doc(listingId)
+  // Now proceed with transaction; resolves to what happened to the order
+  const outcome = await db.runTransaction(async (tx): Promise<SaleOutcome> => {
+    // Re-check inside the transaction: a concurrent delivery of the same
+    // event may have won
+    const orderSnap = await tx.get(orderRef);
+    if (orderSnap.exists) return "duplicate";
+    const listingSnaps = await tx.getAll(
+      ...listingIds.map((id) =>
+        db.collection("users").doc(sellerId).collection("listings").doc(id)
+      )
     );
-
-    if (!listingSnap.exists) {
-      // If the seller listing doc does not exist, bail but do not fail the webhook
-      return;
+    if (
+      listingSnaps.some(
+        (snap) => snap.get("orderPaymentIntentId") === paymentIntentId
+      )
+    ) {
+      return "duplicate";
     }
-
-    const current = listingSnap.data() || {};
+    const groupSnap = groupId ?
+      await tx.get(db.collection("listing_groups").doc(groupId)) :
+      null;
+    // A standalone sale of a group member
+    const memberGroupId = !groupId ? listingSnaps[0]?.get("groupId") : null;
+    const memberGroupSnap =
+      typeof memberGroupId === "string" && memberGroupId ?
+        await tx.get(db.collection("listing_groups").doc(memberGroupId)) :
+        null;
 
     // Only transition from "active" to "sold" (prevents race conditions)
-    if (current["status"] !== "active") {
-      console.log("[WEBHOOK] Listing not active", { status: current["status"], paymentIntentId });
-      return;
+    const sellable = listingSnaps.filter((snap) => {
+      if (!snap.exists) return false;
+      const status = snap.get("status");
+      if (status !== "active") {
+        console.log("[WEBHOOK] Listing not active", {
+          listingId: snap.id,
+          status,
+          paymentIntentId,
+        });
+        return false;
+      }
+      return true;
+    });
+    if (sellable.length !== listingIds.length) return "listing_unavailable";
+    if (groupSnap && groupSnap.get("status") !== "active") {
+      return "group_unavailable";
     }
 
-    // Update listing
-    tx.update(listingSnap.ref, {
-      status: "sold",
-      isAvailable: false,
-      soldAt: admin.firestore.FieldValue.serverTimestamp(),
-      soldTo: buyerId || null,
-      orderPaymentIntentId: paymentIntentId,
-      saleAmount: amount,
-      saleCurrency: currency,
-    });
+    for (const listingSnap of sellable) {
+      // Update listing
+      tx.update(listingSnap.ref, {
+        status: "sold",
+        isAvailable: false,
+        soldAt: admin.firestore.FieldValue.serverTimestamp(),
+        soldTo: buyerId || null,
+        orderPaymentIntentId: paymentIntentId,
+        // Group orders record the total on the order, not per set
+        saleAmount: listingIds.length === 1 ? amount : null,
+        saleCurrency: currency,
+      });
 
-    // Mirror to all_listings
-    const mirrorRef = db.collection("all_listings").doc(listingId);
-    tx.set(mirrorRef, {
-      status: "sold",
-      isAvailable: false,
-      soldAt: admin.firestore.FieldValue.serverTimestamp(),
-    }, { merge: true });
+      // Mirror to all_listings
+      const mirrorRef = db.collection("all_listings").doc(listingSnap.id);
+      tx.set(
+        mirrorRef,
+        {
+          status: "sold",
+          isAvailable: false,
+          soldAt: admin.firestore.FieldValue.serverTimestamp(),
+        },
+        {merge: true}
+      );
+    }
+
+    const group = groupId ? {groupId, listingIds} : {};
+    if (groupSnap) {
+      tx.update(groupSnap.ref, {
+        status: "sold",
+        soldTo: buyerId || null,
+        orderPaymentIntentId: paymentIntentId,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    }
+    if (memberGroupSnap?.exists && memberGroupSnap.get("status") === "active") {
+      tx.update(memberGroupSnap.ref, {
+        status: "broken",
+        availableListingIds: admin.firestore.FieldValue.arrayRemove(listingId),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    }
 
     // Create order record (using paymentIntentId as ID prevents duplicates)
     tx.set(orderRef, {
       paymentIntentId,
       listingId,
+      ...group,
       sellerId,
       buyerId: buyerId || null,
       amount,
@@ -87,9 +165,14 @@ async function markListingSold(opts: {
     // Buyer/seller views
     if (buyerId) {
       tx.set(
-        db.collection("users").doc(buyerId).collection("orders").doc(paymentIntentId),
+        db
+          .collection("users")
+          .doc(buyerId)
+          .collection("orders")
+          .doc(paymentIntentId),
         {
           listingId,
+          ...group,
           paymentIntentId,
           amount,
           currency,
@@ -99,22 +182,96 @@ async function markListingSold(opts: {
       );
     }
 
+    // The buyer may have bought the shipping label before this event arrived
+    // (see buyShippoLabel)
+    const labelled = sellable.find((snap) => snap.get("shipmentId"));
     tx.set(
-      db.collection("users").doc(sellerId).collection("sales").doc(paymentIntentId),
+      db
+        .collection("users")
+        .doc(sellerId)
+        .collection("sales")
+        .doc(paymentIntentId),
       {
         listingId,
+        ...group,
         paymentIntentId,
         amount,
         currency,
         status: "paid",
+        labelPurchased: !!labelled,
+        ...(labelled ? {shipmentId: labelled.get("shipmentId")} : {}),
         createdAt: admin.firestore.FieldValue.serverTimestamp(),
       }
     );
+    return "created";
   });
 
-  console.log("[WEBHOOK] Order created", { paymentIntentId, listingId });
-}
+  if (outcome === "duplicate") {
+    console.log("[WEBHOOK] Already processed (idempotent)", {paymentIntentId});
+    return;
+  }
+  if (outcome !== "created" && !groupId) {
+    // If the seller listing doc does not exist or is no longer active, bail
+    // but do not fail the webhook
+    console.log("[WEBHOOK] Order not fulfilled", {
+      paymentIntentId,
+      listingId,
+      reason: outcome,
+    });
+    return;
+  }
+  if (outcome !== "created") {
+    // Never sell part of a group: give the buyer their money back. A failed
+    // refund throws, so the webhook answers 500 and Stripe retries the event.
+    const refund = await stripe.refunds.create(
+      {payment_intent: paymentIntentId, metadata: {reason: outcome}},
+      {idempotencyKey: `refund_${paymentIntentId}`}
+    );
+    const record = {
+      paymentIntentId,
+      listingId,
+      groupId,
+      listingIds,
+      amount,
+      currency,
+      status: "refunded",
+      refundReason: outcome,
+      refundId: refund.id,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    };
+    const batch = db.batch();
+    batch.set(orderRef, {
+      ...record,
+      sellerId,
+      buyerId: buyerId || null,
+      source: "stripe",
+    });
+    if (buyerId) {
+      batch.set(
+        db
+          .collection("users")
+          .doc(buyerId)
+          .collection("orders")
+          .doc(paymentIntentId),
+        record
+      );
+    }
+    await batch.commit();
+    console.warn("[WEBHOOK] Order refunded", {
+      paymentIntentId,
+      listingId,
+      groupId,
+      reason: outcome,
+    });
+    return;
+  }
 
+  console.log("[WEBHOOK] Order created", {
+    paymentIntentId,
+    listingId,
+    groupId: groupId ?? null,
+  });
+}
 export const stripeWebhook = onRequest({ region: "us-central1", invoker: "public", secrets: [STRIPE_SECRET_KEY, STRIPE_WEBHOOK_SECRET, STRIPE_CLI_WEBHOOK_SECRET] }, async (req, res) => {
   const sig = req.headers["stripe-signature"] as string | undefined;
   if (!sig) {
@@ -190,15 +347,25 @@ export const stripeWebhook = onRequest({ region: "us-central1", invoker: "public
       console.log("💰 Payment succeeded:", { id: pi.id, amount: pi.amount, customer: pi.customer, metadata: pi.metadata });
 
       const listingId = (pi.metadata?.["listingId"] as string) || "";
+      const groupId = (pi.metadata?.["groupId"] as string) || "";
       const sellerId = (pi.metadata?.["sellerId"] as string) || "";
       const buyerIdRaw = pi.metadata?.["buyerId"] as string | undefined;
       const buyerId = buyerIdRaw || undefined;
 
-      if (listingId && sellerId) {
-        await markListingSold({
-          listingId,
+      // Group purchases carry every member in metadata.listingIds
+      const listingIds = groupId ?
+        String(pi.metadata?.["listingIds"] || "")
+          .split(",")
+          .map((s) => s.trim())
+          .filter(Boolean) :
+        listingId ? [listingId] : [];
+
+      if (listingIds.length && sellerId) {
+        await markListingSold(stripe, {
+          listingIds,
+          ...(groupId ? {groupId} : {}),
           sellerId,
-          ...(buyerId ? { buyerId } : {}),
+          ...(buyerId ? {buyerId} : {}),
           paymentIntentId: pi.id,
           amount: (pi.amount_received ?? pi.amount) as number,
           currency: pi.currency,
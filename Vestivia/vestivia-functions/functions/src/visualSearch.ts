@@ -0,0 +1,197 @@
+// functions/src/visualSearch.ts
+import {onCall, HttpsError} from "firebase-functions/v2/https";
+import {defineSecret} from "firebase-functions/params";
+import * as admin from "firebase-admin";
+import {AppConstants} from "./constants";
+import {computeHashSetFromBuffer} from "./hashing";
+import {
+  DEFAULT_IMAGE_VARIANT,
+  signedImageUrl,
+  signedUrlTtlSec,
+} from "./imageDelivery";
+import {SEARCH_SOURCES, runMatching} from "./matching/engine";
+import {brandKey} from "./matching/hashIndex";
+import {getBrandThreshold} from "./matching/thresholds";
+import {computeSimilarityFeatures} from "./similarity";
+
+// Ensure Admin SDK is initialized even when this module is imported directly
+if (admin.apps.length === 0) {
+  admin.initializeApp();
+}
+
+const CF_ACCOUNT_HASH = defineSecret("CF_ACCOUNT_HASH");
+const CLOUDFLARE_SIGNKEY = defineSecret("CLOUDFLARE_SIGNKEY");
+
+const DEFAULT_RESULTS = 20;
+const MAX_RESULTS = 50;
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+/**
+ * The probe image: inline base64 (optionally a data: URL) or a Cloudflare
+ * Images id.
+ * @param {Object} data
+ * @param {string} accountHash
+ * @param {string} signKey
+ * @param {string} variant
+ */
+async function probeImage(
+  data: Record<string, unknown>,
+  accountHash: string,
+  signKey: string,
+  variant: string
+): Promise<Buffer> {
+  const b64 =
+    typeof data["imageBase64"] === "string" ?
+      data["imageBase64"].replace(/^data:[^,]*,/, "").trim() :
+      "";
+  const imageId =
+    typeof data["imageId"] === "string" ? data["imageId"].trim() : "";
+
+  if (b64) {
+    const buf = Buffer.from(b64, "base64");
+    if (buf.length < 32) {
+      throw new HttpsError("invalid-argument", "imageBase64 is not an image.");
+    }
+    if (buf.length > MAX_IMAGE_BYTES) {
+      throw new HttpsError("invalid-argument", "Image is larger than 5 MB.");
+    }
+    return buf;
+  }
+  if (imageId) {
+    const exp = Math.floor(Date.now() / 1000) + 300;
+    const resp = await fetch(
+      signedImageUrl(
+        accountHash,
+        signKey,
+        encodeURIComponent(imageId),
+        variant,
+        exp
+      )
+    );
+    if (!resp.ok) {
+      console.warn("[VISUAL_SEARCH] image:fetch:fail", {
+        imageId,
+        status: resp.status,
+      });
+      throw new HttpsError("not-found", "Image not found.");
+    }
+    const buf = Buffer.from(await resp.arrayBuffer());
+    if (buf.length > MAX_IMAGE_BYTES) {
+      throw new HttpsError("invalid-argument", "Image is larger than 5 MB.");
+    }
+    return buf;
+  }
+  throw new HttpsError("invalid-argument", "Provide imageBase64 or imageId.");
+}
+
+/**
+ * visualSearch
+ * "Find this print now": hashes the given image and returns the closest active
+ * listings of `brandLower` (or every brand when omitted / ANY_BRAND), best
+ * first, with signed image URLs for each listing's primary photo.
+ *
+ * Runs the buyer-side sources of the matching engine with no sinks, so nothing
+ * is indexed, no search doc is created and no inbox entries or pushes happen.
+ */
+export const visualSearch = onCall(
+  {
+    region: "us-central1",
+    memory: "512MiB",
+    timeoutSeconds: 60,
+    secrets: [CF_ACCOUNT_HASH, CLOUDFLARE_SIGNKEY],
+  },
+  async (req) => {
+    if (!req.auth?.uid) {
+      throw new HttpsError("unauthenticated", "Auth required.");
+    }
+    const uid = req.auth.uid;
+    const data = (req.data ?? {}) as Record<string, unknown>;
+
+    const accountHash = (CF_ACCOUNT_HASH.value() ?? "").trim();
+    const signKey = (CLOUDFLARE_SIGNKEY.value() ?? "").trim();
+    if (!accountHash || !signKey) {
+      throw new HttpsError(
+        "failed-precondition",
+        "Image delivery is not configured."
+      );
+    }
+
+    const rawBrand =
+      typeof data["brandLower"] === "string" ?
+        brandKey(data["brandLower"]) :
+        "";
+    const brandLower = rawBrand || AppConstants.ANY_BRAND;
+    const limit = Number.isFinite(data["limit"]) ?
+      Math.max(1, Math.min(MAX_RESULTS, Math.floor(Number(data["limit"])))) :
+      DEFAULT_RESULTS;
+    const variant =
+      typeof data["variant"] === "string" && data["variant"].trim() ?
+        data["variant"].trim() :
+        DEFAULT_IMAGE_VARIANT;
+
+    const buf = await probeImage(data, accountHash, signKey, variant);
+    const t0 = Date.now();
+    let hashes;
+    try {
+      hashes = await computeHashSetFromBuffer(buf);
+    } catch (e) {
+      console.warn("[VISUAL_SEARCH] hash:fail", {uid, err: String(e)});
+      throw new HttpsError("invalid-argument", "Could not read the image.");
+    }
+    const features = await computeSimilarityFeatures(buf);
+
+    const found = await runMatching(
+      {
+        brandLower,
+        threshold: await getBrandThreshold(brandLower),
+        hashes,
+        features,
+        bucketName: null,
+        imageAccountHash: accountHash,
+        listingId: null,
+        listing: null,
+        uid,
+        searchId: null,
+      },
+      SEARCH_SOURCES,
+      []
+    );
+
+    // Don't show sellers their own listings
+    const top = found
+      .filter((c) => c.listing.sellerUid !== uid)
+      .slice(0, limit);
+    const exp = Math.floor(Date.now() / 1000) + signedUrlTtlSec(data["ttlSec"]);
+    const results = top.map((c) => ({
+      listingId: c.listingId,
+      sellerUid: c.listing.sellerUid,
+      listingRef: c.listing.refPath,
+      title: c.listing.title,
+      price: c.listing.price,
+      size: c.listing.size,
+      brandLower: c.brandLower,
+      crossBrand: c.crossBrand,
+      score: c.match.score,
+      matchedTransform: c.hit.transform,
+      primaryImageId: c.listing.primaryImageId,
+      imageUrl: c.listing.primaryImageId ?
+        signedImageUrl(
+          accountHash,
+          signKey,
+          c.listing.primaryImageId,
+          variant,
+          exp
+        ) :
+        null,
+    }));
+
+    console.log("[VISUAL_SEARCH] done", {
+      uid,
+      brandLower,
+      found: found.length,
+      returned: results.length,
+      ms: Date.now() - t0,
+    });
+    return {ok: true, brandLower, results, exp, variant};
+  }
+);
@@ -0,0 +1,51 @@
+import {MASK, detectContactInfo} from "../src/contactInfo";
+
+describe("detectContactInfo", () => {
+  it.each([
+    ["zelle 5552013344", "payment", "5552013344"],
+    ["venmo 5552013344", "payment", "5552013344"],
+    ["zelle me at +15552013344", "payment", "+15552013344"],
+    ["venmo me @jane-doe", "payment", "@jane-doe"],
+    ["cashapp: jane22", "payment", "jane22"],
+    ["send it to $JaneDoe", "payment", "$JaneDoe"],
+    ["paypal.me/janedoe works", "payment", "paypal.me/janedoe"],
+    ["call me (555) 201-3344", "phone", "(555) 201-3344"],
+    ["+1 555.201.3344", "phone", "+1 555.201.3344"],
+    ["text 5552013344 tonight", "phone", "5552013344"],
+    ["jane.doe@gmail.com", "email", "jane.doe@gmail.com"],
+    ["see https://evil.example.com/x", "link", "https://evil.example.com/x"],
+    ["vestivia.com.evil.io", "link", "vestivia.com.evil.io"],
+  ])("finds %j as %s", (text, kind, match) => {
+    const result = detectContactInfo(text);
+    expect(result.findings).toEqual([
+      expect.objectContaining({kind, match}),
+    ]);
+  });
+
+  it.each([
+    "do you take venmo?",
+    "venmo is fine",
+    "thanks @sarah",
+    "it's $45 shipped",
+    "order 1234567890",
+    "tracking #5552013344",
+    "https://vestivia.com/listing/abc",
+    "vestivia://listing/abc",
+  ])("leaves %j alone", (text) => {
+    const result = detectContactInfo(text);
+    expect(result.findings).toEqual([]);
+    expect(result.maskedText).toBe(text);
+    expect(result.masked).toBe(false);
+  });
+
+  it("masks payment, phone and email details but only flags links", () => {
+    const result = detectContactInfo(
+      "zelle 5552013344 or jane@x.com, pics at imgur.com/a"
+    );
+    expect(result.kinds).toEqual(["payment", "email", "link"]);
+    expect(result.maskedText).toBe(
+      `zelle ${MASK} or ${MASK}, pics at imgur.com/a`
+    );
+    expect(result.masked).toBe(true);
+  });
+});
@@ -0,0 +1,91 @@
+import {AppConstants} from "../src/constants";
+import {
+  bandKeysFor,
+  bandProbeKeys,
+  brandKey,
+  parsePatternPath,
+} from "../src/matching/hashIndex";
+
+// Deterministic xorshift so failures are reproducible
+let seed = 0x2545f491;
+const nextInt = (max: number) => {
+  seed ^= seed << 13;
+  seed ^= seed >>> 17;
+  seed ^= seed << 5;
+  return (seed >>> 0) % max;
+};
+
+const randomHash = () =>
+  Array.from({length: 16}, () => nextInt(16).toString(16)).join("");
+
+/**
+ * Flip `count` distinct bits of a 64-bit hex hash.
+ * @param {string} hex 16-digit hash
+ * @param {number} count bits to flip
+ * @return {string} the flipped hash
+ */
+function flipBits(hex: string, count: number): string {
+  const bits = new Set<number>();
+  while (bits.size < count) bits.add(nextInt(64));
+  let x = BigInt("0x" + hex);
+  for (const b of bits) x ^= BigInt(1) << BigInt(b);
+  return x.toString(16).padStart(16, "0");
+}
+
+describe("band keys", () => {
+  it("stores one key per band for a single hash", () => {
+    const keys = bandKeysFor([randomHash()]);
+    expect(keys).toHaveLength(AppConstants.HASH_INDEX_BANDS);
+  });
+
+  it("probes exact bands only while D < bands", () => {
+    const hash = randomHash();
+    expect(bandProbeKeys([hash], AppConstants.HASH_INDEX_BANDS - 1))
+      .toEqual(bandKeysFor([hash]));
+  });
+
+  it.each([0, 4, 5, 9, 10, 14, 20])(
+    "finds every hash within distance %i by a shared key",
+    (maxDistance) => {
+      for (let trial = 0; trial < 200; trial++) {
+        const hash = randomHash();
+        const probe = new Set(bandProbeKeys([hash], maxDistance));
+        for (let d = 0; d <= maxDistance; d++) {
+          const stored = bandKeysFor([flipBits(hash, d)]);
+          expect(stored.some((k) => probe.has(k))).toBe(true);
+        }
+      }
+    }
+  );
+});
+
+describe("parsePatternPath", () => {
+  it("parses listing, buyer and query layouts", () => {
+    expect(parsePatternPath(
+      "active_listing_patterns/brands/janie and jack/L1/pattern.jpg"
+    )).toMatchObject({kind: "listing", brandLower: "janie and jack",
+      listingId: "L1"});
+    expect(parsePatternPath("users_active_patterns/U1/gap/S1.png"))
+      .toMatchObject({kind: "buyer", uid: "U1", searchId: "S1"});
+    expect(parsePatternPath("pattern_queries/gap/U1/S1.jpeg"))
+      .toMatchObject({kind: "query", uid: "U1", searchId: "S1"});
+  });
+
+  it("rejects folders, non-images and unknown prefixes", () => {
+    expect(parsePatternPath("pattern_queries/gap/")).toBeNull();
+    expect(parsePatternPath("pattern_queries/gap/U1/S1.txt")).toBeNull();
+    expect(parsePatternPath("avatars/U1/me.jpg")).toBeNull();
+  });
+});
+
+describe("brandKey", () => {
+  it.each([
+    ["Janie and Jack", "janie-and-jack"],
+    [" Janie & Jack ", "janie-jack"],
+    ["janie-and-jack", "janie-and-jack"],
+    ["Hanna Andersson!", "hanna-andersson"],
+    ["_any", "_any"],
+  ])("normalizes %j to %j like the app's Storage paths", (raw, key) => {
+    expect(brandKey(raw)).toBe(key);
+  });
+});
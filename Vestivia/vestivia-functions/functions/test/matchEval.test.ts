@@ -0,0 +1,31 @@
+import {parseCsvLine, rocAuc, thresholdTable} from "../scripts/matchEval";
+
+describe("parseCsvLine", () => {
+  it("splits plain fields and trims them", () => {
+    expect(parseCsvLine("gap, a/1.jpg ,b/1.jpg,same"))
+      .toEqual(["gap", "a/1.jpg", "b/1.jpg", "same"]);
+  });
+
+  it("keeps commas and escaped quotes inside quoted fields", () => {
+    expect(parseCsvLine("\"oshkosh, b\"\"gosh\",a/1.jpg,b/1.jpg,1"))
+      .toEqual(["oshkosh, b\"gosh", "a/1.jpg", "b/1.jpg", "1"]);
+  });
+});
+
+describe("threshold sweep", () => {
+  const scored = [
+    {distance: 2, same: true},
+    {distance: 6, same: true},
+    {distance: 20, same: false},
+    {distance: 30, same: false},
+  ];
+
+  it("counts predictions at each threshold", () => {
+    const row = thresholdTable("phash", "*", scored)[10];
+    expect(row).toMatchObject({tp: 2, fp: 0, tn: 2, fn: 0, precision: 1});
+  });
+
+  it("gives a perfectly separable set an AUC of 1", () => {
+    expect(rocAuc(thresholdTable("phash", "*", scored))).toBe(1);
+  });
+});
@@ -0,0 +1,43 @@
+import {BrandFeedbackStats, recommendThreshold} from "../src/matchFeedback";
+
+const stats = (
+  correct: number[],
+  wrongPattern: number[]
+): BrandFeedbackStats => ({
+  correct,
+  wrongPattern,
+  counts: {
+    correct: correct.length,
+    wrong_pattern: wrongPattern.length,
+    wrong_color: 0,
+  },
+  total: correct.length + wrongPattern.length,
+});
+
+const times = (n: number, d: number) => Array.from({length: n}, () => d);
+
+// MATCH_FEEDBACK: target precision 0.8, thresholds 8–20, 10 samples, step 1
+describe("recommendThreshold", () => {
+  it("returns null without labelled distances", () => {
+    expect(recommendThreshold(stats([], []))).toBeNull();
+  });
+
+  it("needs enough labelled pairs at or below a threshold", () => {
+    expect(recommendThreshold(stats(times(9, 9), []))).toBeNull();
+  });
+
+  it("picks the largest threshold still meeting the target", () => {
+    expect(recommendThreshold(stats(times(10, 9), times(5, 12))))
+      .toEqual({threshold: 11, precision: 1});
+  });
+
+  it("goes at most one step past the largest labelled distance", () => {
+    expect(recommendThreshold(stats(times(12, 10), times(3, 15))))
+      .toEqual({threshold: 16, precision: 0.8});
+  });
+
+  it("never recommends past the maximum threshold", () => {
+    expect(recommendThreshold(stats([...times(12, 10), 30], [])))
+      .toEqual({threshold: 20, precision: 1});
+  });
+});
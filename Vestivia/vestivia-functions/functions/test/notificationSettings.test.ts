@@ -0,0 +1,49 @@
+import {
+  localMinutes,
+  parseNotificationSettings,
+  quietHoursEnd,
+} from "../src/notificationSettings";
+
+const quiet = (start: string, end: string, enabled = true) =>
+  parseNotificationSettings({
+    quietHours: {enabled, start, end, timeZone: "America/New_York"},
+  });
+
+describe("localMinutes", () => {
+  it("returns minutes since local midnight in the time zone", () => {
+    const now = new Date("2026-01-15T00:00:00Z");
+    expect(localMinutes("UTC", now)).toBe(0);
+    expect(localMinutes("Asia/Kolkata", now)).toBe(5 * 60 + 30);
+    expect(localMinutes("America/New_York", now)).toBe(19 * 60);
+  });
+});
+
+describe("quietHoursEnd", () => {
+  // 2026-01-15 is EST (UTC-5)
+  it("ends a window that wraps midnight the next local morning", () => {
+    const now = new Date("2026-01-15T04:30:45Z"); // 23:30 local
+    expect(quietHoursEnd(quiet("22:00", "07:00"), now))
+      .toEqual(new Date("2026-01-15T12:00:00Z"));
+  });
+
+  it("ends a wrapping window the same morning after midnight", () => {
+    const now = new Date("2026-01-15T08:15:00Z"); // 03:15 local
+    expect(quietHoursEnd(quiet("22:00", "07:00"), now))
+      .toEqual(new Date("2026-01-15T12:00:00Z"));
+  });
+
+  it("ends a daytime window the same day", () => {
+    const now = new Date("2026-01-15T18:10:00Z"); // 13:10 local
+    expect(quietHoursEnd(quiet("13:00", "15:00"), now))
+      .toEqual(new Date("2026-01-15T20:00:00Z"));
+  });
+
+  it.each([
+    ["outside the window", quiet("22:00", "07:00"), "2026-01-15T17:00:00Z"],
+    ["at the end minute", quiet("22:00", "07:00"), "2026-01-15T12:00:00Z"],
+    ["when disabled", quiet("22:00", "07:00", false), "2026-01-15T04:30:00Z"],
+    ["for an empty window", quiet("22:00", "22:00"), "2026-01-15T03:00:00Z"],
+  ])("is null %s", (_label, settings, at) => {
+    expect(quietHoursEnd(settings, new Date(at))).toBeNull();
+  });
+});